@@ -3,13 +3,30 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { useAuth } from "@/hooks/use-auth";
+import AuthPage from "@/pages/auth-page";
 import MergeWorkspace from "@/pages/merge-workspace";
+import JobHistory from "@/pages/job-history";
 import NotFound from "@/pages/not-found";
 
 function Router() {
+  const { user, isLoading } = useAuth();
+
+  // Every page works on the user's own jobs, so nothing is shown before logging in.
+  // The URL is kept, so a shared job link opens once the user has logged in.
+  if (isLoading) {
+    return null;
+  }
+  if (!user) {
+    return <AuthPage />;
+  }
+
   return (
     <Switch>
       <Route path="/" component={MergeWorkspace} />
+      <Route path="/jobs/:id" component={MergeWorkspace} />
+      <Route path="/jobs/:id/files/*" component={MergeWorkspace} />
+      <Route path="/history" component={JobHistory} />
       <Route component={NotFound} />
     </Switch>
   );
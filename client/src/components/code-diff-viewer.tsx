@@ -1,15 +1,24 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { Copy, Download, AlertTriangle, Check, X } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Copy, Download, AlertTriangle, Check, X, Pencil, Save, RotateCcw } from "lucide-react";
+import MergeStatusBadge, { MERGE_STATUS_LABELS } from "@/components/merge-status-badge";
+import ThreeWayView from "@/components/three-way-view";
+import { encodeFilePath } from "@/lib/job-routes";
+import { ConflictResolution, MergedFileRevision, MergedFileStatus, WorkspaceFile } from "@/types/workspace";
 
 interface MergedFile {
   path: string;
   content: string;
   type: string;
+  status: MergedFileStatus;
+  error?: string;
   changes: Change[];
+  revision?: number;
 }
 
 interface Change {
@@ -25,6 +34,8 @@ interface Conflict {
   description: string;
   recommendation: string;
   options: ConflictOption[];
+  resolution?: ConflictResolution;
+  rejectedOptions?: string[];
 }
 
 interface ConflictOption {
@@ -34,20 +45,79 @@ interface ConflictOption {
 }
 
 interface CodeDiffViewerProps {
+  jobId?: string | null;
   mergedFiles: MergedFile[];
   conflicts: Conflict[];
+  workspaceFiles?: WorkspaceFile[];
+  // Controlled selection, e.g. from the URL; the first file is shown when none is given
+  selectedFile?: string | null;
+  onSelectFile?: (path: string) => void;
   onResolveConflict?: (conflictIndex: number, optionId: string) => void;
+  onRejectOption?: (conflictIndex: number, optionId: string) => void;
+  resolving?: boolean;
+  onSaveFile?: (path: string, content: string) => void;
+  saving?: boolean;
 }
 
 export default function CodeDiffViewer({ 
+  jobId,
   mergedFiles = [], 
   conflicts = [],
-  onResolveConflict 
+  workspaceFiles = [],
+  selectedFile: selectedPath,
+  onSelectFile,
+  onResolveConflict,
+  onRejectOption,
+  resolving = false,
+  onSaveFile,
+  saving = false,
 }: CodeDiffViewerProps) {
-  const [selectedFile, setSelectedFile] = useState<string>(mergedFiles[0]?.path || "");
+  const [localSelection, setLocalSelection] = useState<string>("");
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  const selectedFile = selectedPath || localSelection || mergedFiles[0]?.path || "";
+
+  // Leave edit mode whenever another file is shown, including through browser navigation
+  useEffect(() => {
+    setEditing(false);
+  }, [selectedFile]);
   
   const currentFile = mergedFiles.find(f => f.path === selectedFile);
   const currentConflict = conflicts.find(c => c.filePath === selectedFile);
+  const currentConflictIndex = currentConflict ? conflicts.indexOf(currentConflict) : -1;
+
+  // The comparison view only applies to files that exist in both workspaces
+  const sourceA = workspaceFiles.find(f => f.workspace === "a" && f.filePath === selectedFile);
+  const sourceB = workspaceFiles.find(f => f.workspace === "b" && f.filePath === selectedFile);
+  const canCompare = !!sourceA && !!sourceB;
+
+  // Only edited files have a history beyond the merger's output
+  const { data: revisions = [] } = useQuery<MergedFileRevision[]>({
+    // The key becomes the URL, so the path is encoded like in the files route
+    queryKey: ["/api/merge-jobs", jobId, "revisions", currentFile ? encodeFilePath(currentFile.path) : null],
+    enabled: !!jobId && !!currentFile?.revision,
+  });
+
+  const selectFile = (path: string) => {
+    if (onSelectFile) {
+      onSelectFile(path);
+    } else {
+      setLocalSelection(path);
+    }
+  };
+
+  const startEditing = () => {
+    if (!currentFile) return;
+    setDraft(currentFile.content);
+    setEditing(true);
+  };
+
+  const saveDraft = () => {
+    if (!currentFile) return;
+    onSaveFile?.(currentFile.path, draft);
+    setEditing(false);
+  };
 
   const copyToClipboard = async (content: string) => {
     try {
@@ -74,7 +144,8 @@ export default function CodeDiffViewer({
     
     return lines.map((line, index) => {
       const lineNumber = index + 1;
-      const change = changes.find(c => c.lineNumber === lineNumber);
+      // Removed lines no longer exist in the merged content, so only the summary lists them
+      const change = changes.find(c => c.lineNumber === lineNumber && c.type !== "removed");
       
       let className = "px-4 py-1 border-l-4 border-transparent";
       if (change) {
@@ -126,19 +197,34 @@ export default function CodeDiffViewer({
                   key={file.path}
                   variant={selectedFile === file.path ? "default" : "outline"}
                   size="sm"
-                  onClick={() => setSelectedFile(file.path)}
+                  onClick={() => selectFile(file.path)}
                   className={selectedFile === file.path 
                     ? "bg-blue-100 text-blue-800" 
                     : "text-github-gray hover:bg-gray-100"
                   }
                 >
                   {file.path.split('/').pop()}
+                  {file.status !== "identical" && file.status !== "auto-merged" && (
+                    <MergeStatusBadge status={file.status} error={file.error} className="ml-2" />
+                  )}
                 </Button>
               ))}
             </div>
           </div>
           
           <div className="flex items-center space-x-2">
+            {onSaveFile && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={startEditing}
+                disabled={!currentFile || editing || saving}
+                className="text-github-gray hover:text-github-dark"
+              >
+                <Pencil className="mr-1" size={14} />
+                Edit
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="sm"
@@ -162,21 +248,79 @@ export default function CodeDiffViewer({
       </CardHeader>
       
       <CardContent className="p-4">
+        {currentFile && (
+          <div className="mb-4 flex items-center space-x-2 text-sm text-github-gray">
+            <span className="font-mono">{currentFile.path}</span>
+            <MergeStatusBadge status={currentFile.status} error={currentFile.error} />
+            {currentFile.revision && (
+              <span className="text-xs">Revision {currentFile.revision}</span>
+            )}
+          </div>
+        )}
+
+        {currentFile?.error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md flex items-start space-x-2">
+            <AlertTriangle className="text-red-600 mt-0.5" size={16} />
+            <div className="text-sm text-red-800">
+              <strong>{MERGE_STATUS_LABELS[currentFile.status]}:</strong> {currentFile.error}
+            </div>
+          </div>
+        )}
+
         {currentFile ? (
           <Tabs defaultValue="merged" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className={`grid w-full ${canCompare ? "grid-cols-4" : "grid-cols-3"}`}>
               <TabsTrigger value="merged">Merged Result</TabsTrigger>
+              {canCompare && <TabsTrigger value="compare">Compare A / B</TabsTrigger>}
               <TabsTrigger value="changes">Changes Summary</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
             </TabsList>
             
             <TabsContent value="merged" className="mt-4">
-              <div className="bg-gray-50 rounded-md p-4 max-h-96 overflow-auto">
-                <div className="font-mono text-sm">
-                  {renderCodeWithHighlights(currentFile.content, currentFile.changes)}
+              {editing ? (
+                <div className="space-y-2">
+                  <Textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    className="font-mono text-sm min-h-96"
+                    spellCheck={false}
+                  />
+                  <div className="flex justify-end space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => setEditing(false)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={saveDraft}
+                      disabled={saving || draft === currentFile.content}
+                      className="bg-github-blue text-white hover:bg-blue-700"
+                    >
+                      <Save className="mr-1" size={14} />
+                      Save revision
+                    </Button>
+                  </div>
                 </div>
-              </div>
+              ) : (
+                <div className="bg-gray-50 rounded-md p-4 max-h-96 overflow-auto">
+                  <div className="font-mono text-sm">
+                    {renderCodeWithHighlights(currentFile.content, currentFile.changes)}
+                  </div>
+                </div>
+              )}
             </TabsContent>
             
+            {canCompare && (
+              <TabsContent value="compare" className="mt-4">
+                <ThreeWayView
+                  contentA={sourceA.content || ""}
+                  contentB={sourceB.content || ""}
+                  merged={currentFile.content}
+                  onApply={onSaveFile && ((content) => onSaveFile(currentFile.path, content))}
+                  disabled={saving}
+                />
+              </TabsContent>
+            )}
+            
             <TabsContent value="changes" className="mt-4">
               <div className="space-y-3">
                 {currentFile.changes.map((change, index) => (
@@ -204,6 +348,45 @@ export default function CodeDiffViewer({
                 )}
               </div>
             </TabsContent>
+
+            <TabsContent value="history" className="mt-4">
+              <div className="space-y-3">
+                {[...revisions].reverse().map((revision) => (
+                  <div key={revision.id} className="flex items-center justify-between p-3 rounded-md bg-gray-50">
+                    <div>
+                      <div className="text-sm font-medium">
+                        Revision {revision.revision}
+                        {revision.revision === currentFile.revision && (
+                          <Badge variant="outline" className="ml-2">Current</Badge>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        {revision.editedBy ? `Edited by ${revision.editedBy}` : "Merge result"} ·{" "}
+                        {new Date(revision.createdAt).toLocaleString()}
+                      </div>
+                    </div>
+                    {onSaveFile && revision.revision !== currentFile.revision && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onSaveFile(currentFile.path, revision.content)}
+                        disabled={saving}
+                        className="text-github-gray hover:text-github-dark"
+                      >
+                        <RotateCcw className="mr-1" size={14} />
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                ))}
+
+                {revisions.length === 0 && (
+                  <div className="text-center text-gray-500 py-4">
+                    This file has not been edited
+                  </div>
+                )}
+              </div>
+            </TabsContent>
           </Tabs>
         ) : (
           <div className="text-center text-gray-500 py-8">
@@ -217,40 +400,70 @@ export default function CodeDiffViewer({
             <div className="flex items-start space-x-3">
               <AlertTriangle className="text-yellow-600 mt-1" size={20} />
               <div className="flex-1">
-                <h4 className="font-medium text-yellow-800">Merge Conflict Detected</h4>
+                <h4 className="font-medium text-yellow-800">
+                  {currentConflict.resolution ? "Merge Conflict Resolved" : "Merge Conflict Detected"}
+                </h4>
                 <p className="text-sm text-yellow-700 mt-1">{currentConflict.description}</p>
                 <div className="mt-3 space-y-2">
                   <div className="text-sm font-medium text-yellow-800">
                     AI Recommendation: {currentConflict.recommendation}
                   </div>
+                  {currentConflict.resolution && (
+                    <div className="text-xs text-yellow-700">
+                      Resolved by {currentConflict.resolution.resolvedBy} on{" "}
+                      {new Date(currentConflict.resolution.resolvedAt).toLocaleString()}
+                    </div>
+                  )}
                   
                   <div className="space-y-2">
-                    {currentConflict.options.map((option, index) => (
-                      <div key={option.id} className="flex items-center justify-between p-2 bg-white rounded border">
-                        <div className="flex-1">
-                          <div className="text-sm font-medium">{option.description}</div>
-                          <div className="text-xs text-gray-500 mt-1 font-mono">
-                            {option.preview.substring(0, 100)}...
+                    {currentConflict.options.map((option) => {
+                      const accepted = currentConflict.resolution?.optionId === option.id;
+                      const rejected = !!currentConflict.rejectedOptions?.includes(option.id);
+
+                      return (
+                        <div
+                          key={option.id}
+                          className={`flex items-center justify-between p-2 rounded border ${
+                            accepted ? "bg-green-50 border-green-300" :
+                            rejected ? "bg-gray-50 opacity-60" :
+                            "bg-white"
+                          }`}
+                        >
+                          <div className="flex-1">
+                            <div className="text-sm font-medium">
+                              {option.description}
+                              {accepted && <Badge className="ml-2 bg-green-600 text-white">Accepted</Badge>}
+                              {rejected && <Badge variant="outline" className="ml-2">Rejected</Badge>}
+                            </div>
+                            <div className="text-xs text-gray-500 mt-1 font-mono">
+                              {option.preview.substring(0, 100)}...
+                            </div>
                           </div>
+                          {/* Read-only when the job's results can't be changed, e.g. after a cancel */}
+                          {onResolveConflict && (
+                            <div className="flex space-x-2">
+                              <Button
+                                size="sm"
+                                onClick={() => onResolveConflict(currentConflictIndex, option.id)}
+                                disabled={resolving || accepted}
+                                className="bg-green-600 text-white hover:bg-green-700"
+                              >
+                                <Check size={14} />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => onRejectOption?.(currentConflictIndex, option.id)}
+                                disabled={resolving || accepted || rejected}
+                                className="border-gray-300 text-gray-600 hover:bg-gray-100"
+                              >
+                                <X size={14} />
+                              </Button>
+                            </div>
+                          )}
                         </div>
-                        <div className="flex space-x-2">
-                          <Button
-                            size="sm"
-                            onClick={() => onResolveConflict?.(index, option.id)}
-                            className="bg-green-600 text-white hover:bg-green-700"
-                          >
-                            <Check size={14} />
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            className="border-gray-300 text-gray-600 hover:bg-gray-100"
-                          >
-                            <X size={14} />
-                          </Button>
-                        </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </div>
               </div>
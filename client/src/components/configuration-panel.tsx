@@ -1,11 +1,13 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Settings, GitBranch } from "lucide-react";
-import { WorkspaceConfig, AIConfig } from "@/types/workspace";
+import CredentialSelect from "@/components/credential-select";
+import { WorkspaceConfig, AIConfig, AIProviderName, AIProviderInfo } from "@/types/workspace";
 
 interface ConfigurationPanelProps {
   onLoadWorkspaces: (workspaceA: WorkspaceConfig, workspaceB: WorkspaceConfig, aiConfig: AIConfig) => void;
@@ -28,18 +30,32 @@ export default function ConfigurationPanel({ onLoadWorkspaces, loading }: Config
   const [aiConfig, setAiConfig] = useState<AIConfig>({
     provider: "openai",
     apiKey: "",
+    model: "",
+    baseUrl: "",
   });
 
+  const { data: providers = [] } = useQuery<AIProviderInfo[]>({
+    queryKey: ["/api/ai-providers"],
+  });
+  const provider = providers.find(p => p.name === aiConfig.provider);
+
+  // Self-hosted endpoints need a URL and a model name but usually no key
+  const isCompatibleEndpoint = !!provider?.requiresBaseUrl;
+
+  const parseOptionalNumber = (value: string) => value === "" ? undefined : Number(value);
+
+  const isFormValid = workspaceA.url && workspaceB.url && provider &&
+    (!provider.requiresBaseUrl || (aiConfig.baseUrl && aiConfig.model)) &&
+    (!provider.requiresApiKey || aiConfig.apiKey || aiConfig.credentialId);
+
   const handleSubmit = () => {
-    if (!workspaceA.url || !workspaceB.url || !aiConfig.apiKey) {
+    if (!isFormValid) {
       return;
     }
     
     onLoadWorkspaces(workspaceA, workspaceB, aiConfig);
   };
 
-  const isFormValid = workspaceA.url && workspaceB.url && aiConfig.apiKey;
-
   return (
     <Card className="border-github-border">
       <CardHeader className="bg-gray-50 border-b border-github-border">
@@ -98,6 +114,11 @@ export default function ConfigurationPanel({ onLoadWorkspaces, loading }: Config
                   onChange={(e) => setWorkspaceA({ ...workspaceA, token: e.target.value })}
                   className="border-github-border focus:ring-github-blue focus:border-github-blue"
                 />
+                <CredentialSelect
+                  kind="github"
+                  value={workspaceA.credentialId}
+                  onChange={(credentialId) => setWorkspaceA({ ...workspaceA, credentialId })}
+                />
               </div>
             </div>
           </div>
@@ -149,6 +170,11 @@ export default function ConfigurationPanel({ onLoadWorkspaces, loading }: Config
                   onChange={(e) => setWorkspaceB({ ...workspaceB, token: e.target.value })}
                   className="border-github-border focus:ring-github-blue focus:border-github-blue"
                 />
+                <CredentialSelect
+                  kind="github"
+                  value={workspaceB.credentialId}
+                  onChange={(credentialId) => setWorkspaceB({ ...workspaceB, credentialId })}
+                />
               </div>
             </div>
           </div>
@@ -161,7 +187,7 @@ export default function ConfigurationPanel({ onLoadWorkspaces, loading }: Config
               <div className="text-blue-600 dark:text-blue-400">ℹ️</div>
               <div>
                 <p className="text-sm text-blue-700 dark:text-blue-300">
-                  <strong>Rate Limit Solution:</strong> Use the test repositories below (no tokens needed) or add GitHub tokens above for your own repositories.
+                  <strong>Rate Limit Solution:</strong> Use the test repositories below (no tokens needed) or add GitHub tokens above for your own repositories. Tokens saved under Settings can be picked below each token field.
                 </p>
               </div>
             </div>
@@ -201,16 +227,22 @@ export default function ConfigurationPanel({ onLoadWorkspaces, loading }: Config
               </Label>
               <Select
                 value={aiConfig.provider}
-                onValueChange={(value: "openai" | "anthropic") => 
-                  setAiConfig({ ...aiConfig, provider: value })
+                onValueChange={(value: AIProviderName) => 
+                  setAiConfig({
+                    ...aiConfig,
+                    provider: value,
+                    // A base URL only applies to providers that ask for one
+                    baseUrl: providers.find(p => p.name === value)?.requiresBaseUrl ? aiConfig.baseUrl : "",
+                  })
                 }
               >
                 <SelectTrigger className="border-github-border focus:ring-github-blue focus:border-github-blue">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="openai">OpenAI GPT-4</SelectItem>
-                  <SelectItem value="anthropic">Anthropic Claude</SelectItem>
+                  {providers.map(option => (
+                    <SelectItem key={option.name} value={option.name}>{option.label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -221,11 +253,16 @@ export default function ConfigurationPanel({ onLoadWorkspaces, loading }: Config
               </Label>
               <Input
                 type="password"
-                placeholder="sk-xxxxxxxxxxxxxxxx"
+                placeholder={provider && !provider.requiresApiKey ? "Optional" : "sk-xxxxxxxxxxxxxxxx"}
                 value={aiConfig.apiKey}
                 onChange={(e) => setAiConfig({ ...aiConfig, apiKey: e.target.value })}
                 className="border-github-border focus:ring-github-blue focus:border-github-blue"
               />
+              <CredentialSelect
+                kind="ai"
+                value={aiConfig.credentialId}
+                onChange={(credentialId) => setAiConfig({ ...aiConfig, credentialId })}
+              />
             </div>
             
             <div className="flex items-end">
@@ -239,6 +276,68 @@ export default function ConfigurationPanel({ onLoadWorkspaces, loading }: Config
               </Button>
             </div>
           </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mt-4">
+            <div>
+              <Label className="block text-sm font-medium text-github-gray mb-2">
+                Model
+              </Label>
+              <Input
+                placeholder={isCompatibleEndpoint ? "llama3.1:70b" : provider?.defaultModel || "Provider default"}
+                value={aiConfig.model}
+                onChange={(e) => setAiConfig({ ...aiConfig, model: e.target.value })}
+                className="border-github-border focus:ring-github-blue focus:border-github-blue"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label className="block text-sm font-medium text-github-gray mb-2">
+                  Temperature
+                </Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  placeholder="Default"
+                  value={aiConfig.temperature ?? ""}
+                  onChange={(e) => setAiConfig({ ...aiConfig, temperature: parseOptionalNumber(e.target.value) })}
+                  className="border-github-border focus:ring-github-blue focus:border-github-blue"
+                />
+              </div>
+
+              <div>
+                <Label className="block text-sm font-medium text-github-gray mb-2">
+                  Max Output Tokens
+                </Label>
+                <Input
+                  type="number"
+                  min={256}
+                  step={256}
+                  placeholder="4000"
+                  value={aiConfig.maxTokens ?? ""}
+                  onChange={(e) => setAiConfig({ ...aiConfig, maxTokens: parseOptionalNumber(e.target.value) })}
+                  className="border-github-border focus:ring-github-blue focus:border-github-blue"
+                />
+              </div>
+            </div>
+
+            {isCompatibleEndpoint && (
+              <div>
+                <Label className="block text-sm font-medium text-github-gray mb-2">
+                  Base URL
+                </Label>
+                <Input
+                  type="url"
+                  placeholder="http://localhost:11434/v1"
+                  value={aiConfig.baseUrl}
+                  onChange={(e) => setAiConfig({ ...aiConfig, baseUrl: e.target.value })}
+                  className="border-github-border focus:ring-github-blue focus:border-github-blue"
+                />
+              </div>
+            )}
+          </div>
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,42 @@
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CredentialKind, CredentialList } from "@/types/workspace";
+
+interface CredentialSelectProps {
+  kind: CredentialKind;
+  value?: string;
+  onChange: (credentialId: string | undefined) => void;
+}
+
+const NONE = "none";
+
+/**
+ * Picks a saved credential of one kind. Renders nothing until at least one
+ * such credential has been saved.
+ */
+export default function CredentialSelect({ kind, value, onChange }: CredentialSelectProps) {
+  const { data } = useQuery<CredentialList>({
+    queryKey: ["/api/credentials"],
+  });
+
+  const credentials = data?.credentials.filter(credential => credential.kind === kind) || [];
+  if (credentials.length === 0) {
+    return null;
+  }
+
+  return (
+    <Select value={value || NONE} onValueChange={(selected) => onChange(selected === NONE ? undefined : selected)}>
+      <SelectTrigger className="mt-2 border-github-border">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE}>No saved credential</SelectItem>
+        {credentials.map(credential => (
+          <SelectItem key={credential.id} value={credential.id}>
+            {credential.name} ({credential.hint})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
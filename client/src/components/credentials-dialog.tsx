@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { KeyRound, Plus, Trash2 } from "lucide-react";
+import { CredentialKind, CredentialList } from "@/types/workspace";
+
+interface CredentialsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const KIND_LABELS: Record<CredentialKind, string> = {
+  github: "GitHub token",
+  ai: "AI API key",
+};
+
+const EMPTY_FORM = { name: "", kind: "github" as CredentialKind, value: "" };
+
+export default function CredentialsDialog({ open, onOpenChange }: CredentialsDialogProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<CredentialList>({
+    queryKey: ["/api/credentials"],
+    enabled: open,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/credentials", form);
+      return response.json();
+    },
+    onSuccess: () => {
+      setForm(EMPTY_FORM);
+      toast({
+        title: "Credential saved",
+        description: "The secret is stored encrypted on the server.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/credentials"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save credential",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/credentials/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/credentials"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete credential",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const disabled = data && !data.configured;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Saved Credentials</DialogTitle>
+          <DialogDescription>
+            GitHub tokens and AI keys saved here are encrypted on the server and can be picked in the
+            workspace configuration instead of being entered for every merge. They are never shown again.
+          </DialogDescription>
+        </DialogHeader>
+
+        {disabled && (
+          <div className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded p-3">
+            Saving credentials is disabled because the server has no <code>CREDENTIAL_MASTER_KEY</code>.
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {isLoading ? (
+            <div className="text-sm text-github-gray">Loading credentials...</div>
+          ) : !data?.credentials.length ? (
+            <div className="text-sm text-github-gray">No saved credentials yet.</div>
+          ) : (
+            data.credentials.map(credential => (
+              <div key={credential.id} className="flex items-center justify-between border border-github-border rounded px-3 py-2">
+                <div className="flex items-center space-x-2 min-w-0">
+                  <KeyRound className="text-github-gray shrink-0" size={14} />
+                  <span className="text-sm font-medium truncate">{credential.name}</span>
+                  <Badge variant="outline">{KIND_LABELS[credential.kind]}</Badge>
+                  <span className="text-xs font-mono text-github-gray">{credential.hint}</span>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate(credential.id)}
+                  disabled={deleteMutation.isPending}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  <Trash2 size={14} />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="border-t border-github-border pt-4 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label className="block text-sm font-medium text-github-gray mb-2">Name</Label>
+              <Input
+                placeholder="Work GitHub"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                disabled={disabled}
+                className="border-github-border focus:ring-github-blue focus:border-github-blue"
+              />
+            </div>
+            <div>
+              <Label className="block text-sm font-medium text-github-gray mb-2">Type</Label>
+              <Select
+                value={form.kind}
+                onValueChange={(value: CredentialKind) => setForm({ ...form, kind: value })}
+                disabled={disabled}
+              >
+                <SelectTrigger className="border-github-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="github">{KIND_LABELS.github}</SelectItem>
+                  <SelectItem value="ai">{KIND_LABELS.ai}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label className="block text-sm font-medium text-github-gray mb-2">Secret</Label>
+            <Input
+              type="password"
+              placeholder={form.kind === "github" ? "ghp_xxxxxxxxxxxxxxxx" : "sk-xxxxxxxxxxxxxxxx"}
+              value={form.value}
+              onChange={(e) => setForm({ ...form, value: e.target.value })}
+              disabled={disabled}
+              className="border-github-border focus:ring-github-blue focus:border-github-blue"
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={disabled || createMutation.isPending || !form.name.trim() || !form.value.trim()}
+              className="bg-github-blue text-white hover:bg-blue-700"
+            >
+              <Plus className="mr-2" size={16} />
+              {createMutation.isPending ? "Saving..." : "Save Credential"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,29 +7,53 @@ import {
   AlertTriangle,
   Download,
   Search,
-  Sparkles 
+  Sparkles,
+  GitPullRequest
 } from "lucide-react";
-import { WorkspaceFile } from "@/types/workspace";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import MergeStatusBadge from "@/components/merge-status-badge";
+import { WorkspaceFile, MergedFileStatus, DownloadFormat } from "@/types/workspace";
+
+// `partial`: also offered for the files a cancelled merge kept
+const DOWNLOAD_FORMATS: Array<{ format: DownloadFormat; label: string; partial: boolean }> = [
+  { format: "zip", label: "ZIP archive", partial: true },
+  { format: "conflicts", label: "ZIP with conflict markers", partial: true },
+  { format: "diff", label: "Unified diff against A", partial: false },
+  { format: "mbox", label: "Patch for git am", partial: false },
+  { format: "bundle", label: "Git bundle", partial: false },
+];
 
 interface FileTreeProps {
   workspaceAFiles: WorkspaceFile[];
   workspaceBFiles: WorkspaceFile[];
+  fileStatuses?: Record<string, { status: MergedFileStatus; error?: string }>;
   onStartMerge: () => void;
   onPreviewChanges: () => void;
-  onDownloadMerged: () => void;
+  onDownloadMerged: (format: DownloadFormat) => void;
+  onPublishMerged?: () => void;
   canStartMerge: boolean;
   canDownload: boolean;
+  // Results of a cancelled merge: view and download as ZIP only
+  partialResults?: boolean;
   loading: boolean;
 }
 
 export default function FileTree({ 
   workspaceAFiles, 
   workspaceBFiles, 
+  fileStatuses = {},
   onStartMerge,
   onPreviewChanges,
   onDownloadMerged,
+  onPublishMerged,
   canStartMerge,
   canDownload,
+  partialResults = false,
   loading
 }: FileTreeProps) {
   
@@ -77,6 +101,13 @@ export default function FileTree({
         >
           {getFileIcon(name)}
           <span className="ml-2">{name}</span>
+          {fileStatuses[item.filePath] && fileStatuses[item.filePath].status !== "identical" && (
+            <MergeStatusBadge
+              status={fileStatuses[item.filePath].status}
+              error={fileStatuses[item.filePath].error}
+              className="ml-auto text-[10px] px-1.5 py-0"
+            />
+          )}
           {item.isConflict && (
             <AlertTriangle className="text-yellow-500 ml-auto" size={14} />
           )}
@@ -170,14 +201,42 @@ export default function FileTree({
               Preview Changes
             </Button>
             
-            <Button
-              onClick={onDownloadMerged}
-              disabled={!canDownload}
-              className="w-full bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
-            >
-              <Download className="mr-2" size={16} />
-              Download Merged
-            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  disabled={!canDownload}
+                  className="w-full bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+                >
+                  <Download className="mr-2" size={16} />
+                  Download Merged
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {DOWNLOAD_FORMATS.filter(({ partial }) => partial || !partialResults).map(({ format, label }) => (
+                  <DropdownMenuItem key={format} onSelect={() => onDownloadMerged(format)}>
+                    {label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            {onPublishMerged && (
+              <Button
+                onClick={onPublishMerged}
+                disabled={!canDownload || partialResults}
+                variant="outline"
+                className="w-full border-github-border text-github-dark hover:bg-gray-100"
+              >
+                <GitPullRequest className="mr-2" size={16} />
+                Open Pull Request
+              </Button>
+            )}
+
+            {partialResults && (
+              <div className="text-xs text-gray-500">
+                The merge was cancelled: the files merged so far can be viewed and downloaded as ZIP, but not edited or published.
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
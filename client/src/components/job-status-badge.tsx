@@ -0,0 +1,25 @@
+import { Badge } from "@/components/ui/badge";
+import { MergeJobState } from "@/types/workspace";
+
+interface JobStatusBadgeProps {
+  status: MergeJobState;
+}
+
+export default function JobStatusBadge({ status }: JobStatusBadgeProps) {
+  switch (status) {
+    case "pending":
+      return <Badge variant="outline">Ready to merge</Badge>;
+    case "queued":
+      return <Badge className="bg-blue-100 text-blue-800">Queued</Badge>;
+    case "processing":
+      return <Badge className="bg-blue-500 text-white animate-pulse">Processing</Badge>;
+    case "completed":
+      return <Badge className="bg-green-500 text-white">Completed</Badge>;
+    case "failed":
+      return <Badge variant="destructive">Failed</Badge>;
+    case "cancelled":
+      return <Badge variant="outline" className="text-github-gray">Cancelled</Badge>;
+    default:
+      return <Badge variant="outline">Unknown</Badge>;
+  }
+}
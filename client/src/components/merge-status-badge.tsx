@@ -0,0 +1,42 @@
+import { Badge } from "@/components/ui/badge";
+import { MergedFileStatus } from "@/types/workspace";
+
+export const MERGE_STATUS_LABELS: Record<MergedFileStatus, string> = {
+  "identical": "Identical",
+  "auto-merged": "Auto-merged",
+  "ai-merged": "AI merged",
+  "fallback-a": "Fallback to A",
+  "failed": "Failed",
+  "unresolved": "Unresolved",
+  "resolved": "Resolved",
+  "edited": "Edited",
+};
+
+export const MERGE_STATUS_STYLES: Record<MergedFileStatus, string> = {
+  "identical": "bg-gray-100 text-gray-700",
+  "auto-merged": "bg-green-100 text-green-800",
+  "ai-merged": "bg-purple-100 text-purple-800",
+  "fallback-a": "bg-orange-100 text-orange-800",
+  "failed": "bg-red-100 text-red-800",
+  "unresolved": "bg-yellow-100 text-yellow-800",
+  "resolved": "bg-blue-100 text-blue-800",
+  "edited": "bg-indigo-100 text-indigo-800",
+};
+
+interface MergeStatusBadgeProps {
+  status: MergedFileStatus;
+  error?: string;
+  className?: string;
+}
+
+export default function MergeStatusBadge({ status, error, className = "" }: MergeStatusBadgeProps) {
+  return (
+    <Badge
+      variant="outline"
+      title={error}
+      className={`border-transparent ${MERGE_STATUS_STYLES[status]} ${className}`}
+    >
+      {MERGE_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
@@ -1,9 +1,12 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { BarChart, CheckCircle, Info, Sparkles } from "lucide-react";
+import MergeStatusBadge from "@/components/merge-status-badge";
+import { MergedFileStatus } from "@/types/workspace";
 
 interface MergeSummary {
   totalFiles: number;
   mergedFiles: number;
+  statusCounts?: Record<MergedFileStatus, number>;
   conflictsResolved: number;
   linesAdded: number;
   recommendations: string[];
@@ -54,6 +57,20 @@ export default function MergeSummaryComponent({ summary }: MergeSummaryProps) {
           </div>
         </div>
 
+        {/* Per-file Status */}
+        {summary.statusCounts && (
+          <div className="flex flex-wrap gap-2 mb-6">
+            {(Object.entries(summary.statusCounts) as [MergedFileStatus, number][])
+              .filter(([, count]) => count > 0)
+              .map(([status, count]) => (
+                <div key={status} className="flex items-center space-x-1">
+                  <MergeStatusBadge status={status} />
+                  <span className="text-sm text-gray-600">{count}</span>
+                </div>
+              ))}
+          </div>
+        )}
+
         {/* AI Recommendations */}
         <div className="space-y-3">
           <h4 className="font-medium text-github-dark">AI Merge Recommendations:</h4>
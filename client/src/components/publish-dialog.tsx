@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { GitPullRequest } from "lucide-react";
+import CredentialSelect from "@/components/credential-select";
+import { PublishConfig } from "@/types/workspace";
+
+interface PublishDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaults: PublishConfig;
+  onPublish: (config: PublishConfig) => void;
+  loading: boolean;
+}
+
+export default function PublishDialog({ open, onOpenChange, defaults, onPublish, loading }: PublishDialogProps) {
+  const [config, setConfig] = useState<PublishConfig>(defaults);
+
+  // Start from the current workspace settings every time the dialog opens
+  useEffect(() => {
+    if (open) setConfig(defaults);
+  }, [open]);
+
+  const fields: Array<{ key: Exclude<keyof PublishConfig, "githubCredentialId">; label: string; placeholder: string; type?: string }> = [
+    { key: "targetUrl", label: "Target Repository URL", placeholder: "https://github.com/octocat/Hello-World", type: "url" },
+    { key: "targetBranch", label: "Base Branch", placeholder: "main" },
+    { key: "branchName", label: "New Branch", placeholder: "codemerge/merge" },
+    { key: "title", label: "Pull Request Title", placeholder: "Merge workspace B into workspace A" },
+    { key: "githubToken", label: "Access Token", placeholder: "ghp_xxxxxxxxxxxxxxxx", type: "password" },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Open Pull Request</DialogTitle>
+          <DialogDescription>
+            Commits the merged files on a new branch of the target repository and opens a pull request
+            with the merge summary. The token needs write access to the repository.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {fields.map(field => (
+            <div key={field.key}>
+              <Label className="block text-sm font-medium text-github-gray mb-2">{field.label}</Label>
+              <Input
+                type={field.type || "text"}
+                placeholder={field.placeholder}
+                value={config[field.key]}
+                onChange={(e) => setConfig({ ...config, [field.key]: e.target.value })}
+                className="border-github-border focus:ring-github-blue focus:border-github-blue"
+              />
+            </div>
+          ))}
+          <CredentialSelect
+            kind="github"
+            value={config.githubCredentialId}
+            onChange={(githubCredentialId) => setConfig({ ...config, githubCredentialId })}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onPublish(config)}
+            disabled={loading || !config.targetUrl}
+            className="bg-github-blue text-white hover:bg-blue-700"
+          >
+            <GitPullRequest className="mr-2" size={16} />
+            {loading ? "Publishing..." : "Open Pull Request"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,115 @@
+import { useMemo, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, ArrowRight } from "lucide-react";
+import { alignThreeWay, joinLines, type AlignedHunk } from "@shared/line-diff";
+
+type Pane = "a" | "merged" | "b";
+
+interface ThreeWayViewProps {
+  contentA: string;
+  contentB: string;
+  merged: string;
+  onApply?: (content: string) => void;
+  disabled?: boolean;
+}
+
+const PANE_TITLES: Record<Pane, string> = {
+  a: "Workspace A",
+  merged: "Merged",
+  b: "Workspace B",
+};
+
+const CHANGED_STYLES: Record<Pane, string> = {
+  a: "bg-red-50",
+  merged: "bg-yellow-50",
+  b: "bg-blue-50",
+};
+
+const sameLines = (x: string[], y: string[]) =>
+  x.length === y.length && x.every((line, index) => line === y[index]);
+
+export default function ThreeWayView({ contentA, contentB, merged, onApply, disabled = false }: ThreeWayViewProps) {
+  const hunks = useMemo(() => alignThreeWay(contentA, merged, contentB), [contentA, merged, contentB]);
+  const paneRefs = useRef<Record<Pane, HTMLDivElement | null>>({ a: null, merged: null, b: null });
+
+  // Keep the vertical position of the three panes in step
+  const syncScroll = (source: Pane) => {
+    const scrollTop = paneRefs.current[source]?.scrollTop ?? 0;
+    (Object.keys(paneRefs.current) as Pane[]).forEach(pane => {
+      const element = paneRefs.current[pane];
+      if (pane !== source && element && element.scrollTop !== scrollTop) {
+        element.scrollTop = scrollTop;
+      }
+    });
+  };
+
+  const takeSide = (hunkIndex: number, side: "a" | "b") => {
+    const content = joinLines(hunks.flatMap((hunk, index) => index === hunkIndex ? hunk[side] : hunk.merged));
+    onApply?.(content);
+  };
+
+  const renderPane = (pane: Pane) => {
+    let lineNumber = 0;
+
+    return hunks.map((hunk: AlignedHunk, hunkIndex) => {
+      const lines = hunk[pane];
+      const height = Math.max(hunk.a.length, hunk.merged.length, hunk.b.length);
+      const changed = hunk.kind === "changed";
+      const side = pane === "merged" ? null : pane;
+
+      return (
+        <div key={hunkIndex} className={changed ? CHANGED_STYLES[pane] : ""}>
+          {/* Action row, present in every pane so the hunks stay aligned */}
+          {changed && onApply && (
+            <div className="h-8 px-2 flex items-center border-y border-gray-200">
+              {side && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs text-github-gray hover:text-github-dark"
+                  onClick={() => takeSide(hunkIndex, side)}
+                  disabled={disabled || sameLines(hunk[side], hunk.merged)}
+                >
+                  {side === "a" ? (
+                    <>Take A<ArrowRight className="ml-1" size={12} /></>
+                  ) : (
+                    <><ArrowLeft className="mr-1" size={12} />Take B</>
+                  )}
+                </Button>
+              )}
+            </div>
+          )}
+          {Array.from({ length: height }, (_, row) => {
+            if (row >= lines.length) {
+              return <div key={row} className="h-6 bg-gray-100" />;
+            }
+            lineNumber++;
+            return (
+              <div key={row} className="h-6 px-2 whitespace-pre">
+                <span className="text-gray-400 text-sm mr-4 inline-block w-8">{lineNumber}</span>
+                <code className="font-mono text-sm">{lines[row] || " "}</code>
+              </div>
+            );
+          })}
+        </div>
+      );
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      {(["a", "merged", "b"] as Pane[]).map(pane => (
+        <div key={pane} className="min-w-0">
+          <div className="text-sm font-medium text-github-dark mb-2">{PANE_TITLES[pane]}</div>
+          <div
+            ref={element => { paneRefs.current[pane] = element; }}
+            onScroll={() => syncScroll(pane)}
+            className="bg-gray-50 rounded-md py-2 max-h-96 overflow-auto font-mono text-sm leading-6"
+          >
+            {renderPane(pane)}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
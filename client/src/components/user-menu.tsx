@@ -0,0 +1,27 @@
+import { Button } from "@/components/ui/button";
+import { LogOut, User } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function UserMenu() {
+  const { user, logoutMutation } = useAuth();
+  if (!user) return null;
+
+  return (
+    <div className="flex items-center space-x-2">
+      <span className="flex items-center text-sm text-github-gray">
+        <User className="mr-1" size={14} />
+        {user.username}
+      </span>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => logoutMutation.mutate()}
+        disabled={logoutMutation.isPending}
+        className="text-github-gray hover:text-github-dark"
+      >
+        <LogOut className="mr-2" size={16} />
+        Log out
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { JobFileEvent, JobPhaseEvent, JobProgressEvent } from "@/types/workspace";
+
+interface JobEventsOptions {
+  onJobError?: (message: string) => void;
+}
+
+/**
+ * Follows `/api/merge-jobs/:id/events` and refreshes the job and file queries
+ * when the server reports a change, so nothing has to be polled.
+ */
+export function useJobEvents(jobId: string | null, { onJobError }: JobEventsOptions = {}) {
+  const queryClient = useQueryClient();
+  const [connected, setConnected] = useState(false);
+  const [phase, setPhase] = useState<JobPhaseEvent | null>(null);
+  const [progress, setProgress] = useState<JobProgressEvent | null>(null);
+  const [fileResults, setFileResults] = useState<JobFileEvent[]>([]);
+
+  // Read the latest callback without reopening the stream
+  const onJobErrorRef = useRef(onJobError);
+  onJobErrorRef.current = onJobError;
+
+  useEffect(() => {
+    setPhase(null);
+    setProgress(null);
+    setFileResults([]);
+    if (!jobId) return;
+
+    const source = new EventSource(`/api/merge-jobs/${jobId}/events`);
+    const parse = <T,>(event: Event) => JSON.parse((event as MessageEvent).data) as T;
+
+    source.onopen = () => setConnected(true);
+    // EventSource reconnects by itself
+    source.onerror = () => setConnected(false);
+
+    source.addEventListener("status", () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/merge-jobs", jobId] });
+    });
+    source.addEventListener("phase", (event) => {
+      const next = parse<JobPhaseEvent>(event);
+      // A failed or cancelled job that is started again begins from scratch
+      if (next.phase === "fetching_a") setFileResults([]);
+      setPhase(next);
+      setProgress(null);
+    });
+    source.addEventListener("progress", (event) => {
+      setProgress(parse<JobProgressEvent>(event));
+    });
+    source.addEventListener("file", (event) => {
+      const result = parse<JobFileEvent>(event);
+      setFileResults(results => [...results.filter(r => r.filePath !== result.filePath), result]);
+    });
+    source.addEventListener("files_loaded", () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/merge-jobs", jobId, "files"] });
+    });
+    source.addEventListener("job_error", (event) => {
+      onJobErrorRef.current?.(parse<{ message: string }>(event).message);
+    });
+
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [jobId, queryClient]);
+
+  return { connected, phase, progress, fileResults };
+}
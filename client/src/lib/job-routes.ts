@@ -0,0 +1,23 @@
+// Every segment is encoded on its own so the slashes of a file path stay readable
+export function encodeFilePath(path: string): string {
+  return path.split("/").map(encodeURIComponent).join("/");
+}
+
+// A malformed escape (e.g. a hand-edited URL) is kept as typed; the file is then simply not found
+export function decodeFilePath(path: string): string {
+  return path.split("/").map(segment => {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  }).join("/");
+}
+
+export function jobUrl(jobId: string): string {
+  return `/jobs/${jobId}`;
+}
+
+export function jobFileUrl(jobId: string, filePath: string): string {
+  return `${jobUrl(jobId)}/files/${encodeFilePath(filePath)}`;
+}
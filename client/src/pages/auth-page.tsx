@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { LogIn, UserPlus } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function AuthPage() {
+  const { loginMutation, registerMutation } = useAuth();
+  const [form, setForm] = useState({ username: "", password: "" });
+
+  const canSubmit = form.username.trim() && form.password;
+  const pending = loginMutation.isPending || registerMutation.isPending;
+
+  const fields = (
+    <>
+      <div>
+        <Label className="block text-sm font-medium text-github-gray mb-2">Username</Label>
+        <Input
+          autoComplete="username"
+          value={form.username}
+          onChange={(e) => setForm({ ...form, username: e.target.value })}
+          className="border-github-border focus:ring-github-blue focus:border-github-blue"
+        />
+      </div>
+      <div>
+        <Label className="block text-sm font-medium text-github-gray mb-2">Password</Label>
+        <Input
+          type="password"
+          autoComplete="current-password"
+          value={form.password}
+          onChange={(e) => setForm({ ...form, password: e.target.value })}
+          className="border-github-border focus:ring-github-blue focus:border-github-blue"
+        />
+      </div>
+    </>
+  );
+
+  return (
+    <div className="min-h-screen bg-github-bg flex items-center justify-center px-4">
+      <Card className="w-full max-w-md border-github-border">
+        <CardHeader>
+          <CardTitle className="text-xl font-bold text-github-dark flex items-center space-x-3">
+            <span className="text-2xl">🔀</span>
+            <span>CodeMerge AI</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="login">Log in</TabsTrigger>
+              <TabsTrigger value="register">Create account</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="login">
+              <form
+                className="space-y-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (canSubmit) loginMutation.mutate(form);
+                }}
+              >
+                {fields}
+                <Button
+                  type="submit"
+                  disabled={!canSubmit || pending}
+                  className="w-full bg-github-blue text-white hover:bg-blue-700"
+                >
+                  <LogIn className="mr-2" size={16} />
+                  {loginMutation.isPending ? "Logging in..." : "Log in"}
+                </Button>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="register">
+              <form
+                className="space-y-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (canSubmit) registerMutation.mutate(form);
+                }}
+              >
+                {fields}
+                <div className="text-xs text-gray-500">
+                  At least 3 characters for the username and 8 for the password.
+                </div>
+                <Button
+                  type="submit"
+                  disabled={!canSubmit || pending}
+                  className="w-full bg-github-blue text-white hover:bg-blue-700"
+                >
+                  <UserPlus className="mr-2" size={16} />
+                  {registerMutation.isPending ? "Creating account..." : "Create account"}
+                </Button>
+              </form>
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
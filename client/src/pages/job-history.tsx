@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import JobStatusBadge from "@/components/job-status-badge";
+import UserMenu from "@/components/user-menu";
+import { jobUrl } from "@/lib/job-routes";
+import { ArrowLeft, ChevronLeft, ChevronRight, ExternalLink } from "lucide-react";
+import { AIProviderInfo, MergeJobPage, MergeJobState } from "@/types/workspace";
+
+const PAGE_SIZE = 20;
+
+const STATUS_OPTIONS: Array<{ value: MergeJobState; label: string }> = [
+  { value: "pending", label: "Ready to merge" },
+  { value: "queued", label: "Queued" },
+  { value: "processing", label: "Processing" },
+  { value: "completed", label: "Completed" },
+  { value: "failed", label: "Failed" },
+  { value: "cancelled", label: "Cancelled" },
+];
+
+const SORT_OPTIONS = [
+  { value: "createdAt:desc", label: "Newest first" },
+  { value: "createdAt:asc", label: "Oldest first" },
+  { value: "completedAt:desc", label: "Recently completed" },
+  { value: "status:asc", label: "Status" },
+];
+
+interface HistoryFilters {
+  status: string;
+  aiProvider: string;
+  repository: string;
+  createdFrom: string;
+  createdTo: string;
+  sort: string;
+}
+
+const EMPTY_FILTERS: HistoryFilters = {
+  status: "all",
+  aiProvider: "all",
+  repository: "",
+  createdFrom: "",
+  createdTo: "",
+  sort: "createdAt:desc",
+};
+
+const repositoryName = (url: string) => url.replace(/^https?:\/\/github\.com\//, "");
+
+const formatDate = (value?: string) => value ? new Date(value).toLocaleString() : "—";
+
+function buildQueryString(filters: HistoryFilters, page: number): string {
+  const [sortBy, sortOrder] = filters.sort.split(":");
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE), sortBy, sortOrder });
+
+  if (filters.status !== "all") params.set("status", filters.status);
+  if (filters.aiProvider !== "all") params.set("aiProvider", filters.aiProvider);
+  if (filters.repository.trim()) params.set("repository", filters.repository.trim());
+  // Date inputs are whole local days, the end date included
+  if (filters.createdFrom) params.set("createdFrom", new Date(`${filters.createdFrom}T00:00:00`).toISOString());
+  if (filters.createdTo) params.set("createdTo", new Date(`${filters.createdTo}T23:59:59.999`).toISOString());
+
+  return params.toString();
+}
+
+export default function JobHistory() {
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading, isFetching, error } = useQuery<MergeJobPage>({
+    queryKey: [`/api/merge-jobs?${buildQueryString(filters, page)}`],
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: providers = [] } = useQuery<AIProviderInfo[]>({
+    queryKey: ["/api/ai-providers"],
+  });
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  const updateFilter = (key: keyof HistoryFilters, value: string) => {
+    setFilters({ ...filters, [key]: value });
+    setPage(1);
+  };
+
+  return (
+    <div className="min-h-screen bg-github-bg">
+      {/* Header */}
+      <header className="bg-white border-b border-github-border shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center space-x-3">
+              <div className="text-2xl">🔀</div>
+              <h1 className="text-xl font-bold text-github-dark">Merge History</h1>
+            </div>
+            <div className="flex items-center space-x-4">
+              <Button variant="ghost" size="sm" className="text-github-gray hover:text-github-dark" asChild>
+                <Link href="/">
+                  <ArrowLeft className="mr-2" size={16} />
+                  Back to workspace
+                </Link>
+              </Button>
+              <UserMenu />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {/* Filters */}
+        <Card className="border-github-border">
+          <CardContent className="p-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+              <div className="lg:col-span-2">
+                <Label className="block text-sm font-medium text-github-gray mb-2">Repository</Label>
+                <Input
+                  placeholder="owner/repo or URL"
+                  value={filters.repository}
+                  onChange={(e) => updateFilter("repository", e.target.value)}
+                  className="border-github-border focus:ring-github-blue focus:border-github-blue"
+                />
+              </div>
+              <div>
+                <Label className="block text-sm font-medium text-github-gray mb-2">Status</Label>
+                <Select value={filters.status} onValueChange={(value) => updateFilter("status", value)}>
+                  <SelectTrigger className="border-github-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    {STATUS_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="block text-sm font-medium text-github-gray mb-2">AI Provider</Label>
+                <Select value={filters.aiProvider} onValueChange={(value) => updateFilter("aiProvider", value)}>
+                  <SelectTrigger className="border-github-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All providers</SelectItem>
+                    {providers.map(option => (
+                      <SelectItem key={option.name} value={option.name}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="block text-sm font-medium text-github-gray mb-2">Created from</Label>
+                <Input
+                  type="date"
+                  value={filters.createdFrom}
+                  onChange={(e) => updateFilter("createdFrom", e.target.value)}
+                  className="border-github-border"
+                />
+              </div>
+              <div>
+                <Label className="block text-sm font-medium text-github-gray mb-2">Created until</Label>
+                <Input
+                  type="date"
+                  value={filters.createdTo}
+                  onChange={(e) => updateFilter("createdTo", e.target.value)}
+                  className="border-github-border"
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between mt-4">
+              <div className="flex items-center space-x-2">
+                <Label className="text-sm font-medium text-github-gray">Sort by</Label>
+                <Select value={filters.sort} onValueChange={(value) => updateFilter("sort", value)}>
+                  <SelectTrigger className="w-48 border-github-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SORT_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => { setFilters(EMPTY_FILTERS); setPage(1); }}
+                className="text-github-gray hover:text-github-dark"
+              >
+                Clear filters
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Jobs */}
+        <Card className="border-github-border">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg font-semibold text-github-dark">
+              {data ? `${data.total} merge job${data.total === 1 ? "" : "s"}` : "Merge jobs"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-4 pt-0">
+            {error ? (
+              <div className="text-sm text-red-600 py-8 text-center">{(error as Error).message}</div>
+            ) : isLoading ? (
+              <div className="text-sm text-github-gray py-8 text-center">Loading merge jobs...</div>
+            ) : !data?.jobs.length ? (
+              <div className="text-sm text-github-gray py-8 text-center">No merge jobs match these filters.</div>
+            ) : (
+              <Table className={isFetching ? "opacity-60" : ""}>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Workspaces</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>AI</TableHead>
+                    <TableHead className="text-right">Files</TableHead>
+                    <TableHead className="text-right">Conflicts</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Completed</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.jobs.map(job => (
+                    <TableRow key={job.id}>
+                      <TableCell className="max-w-xs">
+                        <div className="font-mono text-sm truncate" title={job.workspaceAUrl}>
+                          A: {repositoryName(job.workspaceAUrl)}{job.workspaceABranch && ` (${job.workspaceABranch})`}
+                        </div>
+                        <div className="font-mono text-sm truncate" title={job.workspaceBUrl}>
+                          B: {repositoryName(job.workspaceBUrl)}{job.workspaceBBranch && ` (${job.workspaceBBranch})`}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <JobStatusBadge status={job.status} />
+                      </TableCell>
+                      <TableCell className="text-sm text-github-gray">
+                        {job.aiProvider}{job.aiModel && <div className="text-xs">{job.aiModel}</div>}
+                      </TableCell>
+                      <TableCell className="text-right text-sm">{job.summary?.totalFiles ?? "—"}</TableCell>
+                      <TableCell className="text-right text-sm">{job.conflictCount}</TableCell>
+                      <TableCell className="text-sm text-github-gray whitespace-nowrap">{formatDate(job.createdAt)}</TableCell>
+                      <TableCell className="text-sm text-github-gray whitespace-nowrap">{formatDate(job.completedAt)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" asChild>
+                          <Link href={jobUrl(job.id)}>
+                            <ExternalLink className="mr-1" size={14} />
+                            Open
+                          </Link>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {/* Pagination */}
+            {data && data.total > data.pageSize && (
+              <div className="flex items-center justify-between mt-4">
+                <span className="text-sm text-github-gray">Page {page} of {totalPages}</span>
+                <div className="flex items-center space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                    <ChevronLeft size={16} />
+                    Previous
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+                    Next
+                    <ChevronRight size={16} />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
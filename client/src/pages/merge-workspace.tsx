@@ -1,33 +1,69 @@
 import { useState, useEffect } from "react";
+import { Link, useLocation, useParams } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useJobEvents } from "@/hooks/use-job-events";
 import { apiRequest } from "@/lib/queryClient";
+import { decodeFilePath, encodeFilePath, jobFileUrl, jobUrl } from "@/lib/job-routes";
 import ConfigurationPanel from "@/components/configuration-panel";
 import FileTree from "@/components/file-tree";
 import CodeDiffViewer from "@/components/code-diff-viewer";
 import MergeSummaryComponent from "@/components/merge-summary";
+import PublishDialog from "@/components/publish-dialog";
+import JobStatusBadge from "@/components/job-status-badge";
+import CredentialsDialog from "@/components/credentials-dialog";
+import UserMenu from "@/components/user-menu";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
-import { RefreshCw, Maximize2 } from "lucide-react";
-import { WorkspaceConfig, AIConfig, MergeJobStatus, WorkspaceFile } from "@/types/workspace";
+import { RefreshCw, Maximize2, GitPullRequest, Square, History } from "lucide-react";
+import { WorkspaceConfig, AIConfig, MergeJobStatus, WorkspaceFile, PublishConfig, DownloadFormat } from "@/types/workspace";
+
+// Failed and cancelled merges can be started again
+const STARTABLE_STATUSES = ["pending", "failed", "cancelled"];
 
 export default function MergeWorkspace() {
-  const [currentJobId, setCurrentJobId] = useState<string | null>(null);
+  // The open job and file live in the URL (/jobs/:id/files/*) so they can be bookmarked and shared
+  const params = useParams<{ id?: string; "*"?: string }>();
+  const [, navigate] = useLocation();
+  const currentJobId = params.id ?? null;
+  const selectedFilePath = params["*"] ? decodeFilePath(params["*"]) : null;
   const [workspaceAConfig, setWorkspaceAConfig] = useState<WorkspaceConfig | null>(null);
   const [workspaceBConfig, setWorkspaceBConfig] = useState<WorkspaceConfig | null>(null);
   const [aiConfig, setAiConfig] = useState<AIConfig | null>(null);
+  // The job created from the configuration above; its tokens only apply to that job
+  const [configJobId, setConfigJobId] = useState<string | null>(null);
+  const [publishDialogOpen, setPublishDialogOpen] = useState(false);
+  const [credentialsDialogOpen, setCredentialsDialogOpen] = useState(false);
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // Job progress is pushed by the server; the queries below are refreshed from its events
+  const { connected: eventsConnected, phase, progress, fileResults } = useJobEvents(currentJobId, {
+    onJobError: (message) => {
+      toast({
+        title: "Merge error",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // A job opened from a link or the history has no tokens in the form, only saved credentials
+  const formConfig = configJobId === currentJobId
+    ? { workspaceA: workspaceAConfig, workspaceB: workspaceBConfig, ai: aiConfig }
+    : null;
+
   // Query for merge job status
   const { data: mergeJob, isLoading: jobLoading } = useQuery<MergeJobStatus>({
     queryKey: ["/api/merge-jobs", currentJobId],
     enabled: !!currentJobId,
-    refetchInterval: (data) => {
-      // Refetch every 2 seconds if job is processing
-      return data?.data?.status === "processing" ? 2000 : false;
+    refetchInterval: (query) => {
+      // Fall back to polling only while the event stream is down
+      const status = query.state.data?.status;
+      return !eventsConnected && (status === "queued" || status === "processing") ? 5000 : false;
     },
   });
 
@@ -35,7 +71,6 @@ export default function MergeWorkspace() {
   const { data: workspaceFiles = [] } = useQuery<WorkspaceFile[]>({
     queryKey: ["/api/merge-jobs", currentJobId, "files"],
     enabled: !!currentJobId,
-    refetchInterval: 2000, // Auto-refresh every 2 seconds to catch file loading
   });
 
   // Create merge job mutation
@@ -51,11 +86,22 @@ export default function MergeWorkspace() {
         workspaceABranch: workspaceA.branch,
         workspaceBBranch: workspaceB.branch,
         aiProvider: ai.provider,
+        aiModel: ai.model || undefined,
+        aiBaseUrl: ai.baseUrl || undefined,
+        aiTemperature: ai.temperature,
+        aiMaxTokens: ai.maxTokens,
+        // Saved credentials are stored on the job, so the merge can be started again later without them
+        githubCredentialAId: workspaceA.credentialId,
+        githubCredentialBId: workspaceB.credentialId,
+        aiCredentialId: ai.credentialId,
+        githubTokenA: workspaceA.token || undefined,
+        githubTokenB: workspaceB.token || undefined,
       });
       return response.json();
     },
     onSuccess: (data) => {
-      setCurrentJobId(data.id);
+      setConfigJobId(data.id);
+      navigate(jobUrl(data.id));
       toast({
         title: "Merge job created",
         description: "Workspaces loaded successfully. Ready to merge.",
@@ -73,21 +119,22 @@ export default function MergeWorkspace() {
   // Start merge mutation
   const startMergeMutation = useMutation({
     mutationFn: async () => {
-      if (!currentJobId || !workspaceAConfig || !workspaceBConfig || !aiConfig) {
+      if (!currentJobId) {
         throw new Error("Missing configuration");
       }
 
+      // Anything left out is taken from the saved credentials of the job
       const response = await apiRequest("POST", `/api/merge-jobs/${currentJobId}/merge`, {
-        githubTokenA: workspaceAConfig.token,
-        githubTokenB: workspaceBConfig.token,
-        aiApiKey: aiConfig.apiKey,
+        githubTokenA: formConfig?.workspaceA?.token || undefined,
+        githubTokenB: formConfig?.workspaceB?.token || undefined,
+        aiApiKey: formConfig?.ai?.apiKey || undefined,
       });
       return response.json();
     },
     onSuccess: () => {
       toast({
-        title: "Merge started",
-        description: "AI is analyzing and merging your workspaces...",
+        title: "Merge queued",
+        description: "AI will analyze and merge your workspaces as soon as a worker is free.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/merge-jobs", currentJobId] });
     },
@@ -100,6 +147,111 @@ export default function MergeWorkspace() {
     },
   });
 
+  // Stop a queued or running merge; finished files are kept
+  const cancelMergeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/merge-jobs/${currentJobId}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Cancelling merge",
+        description: "Outstanding GitHub and AI requests are being stopped.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/merge-jobs", currentJobId] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to cancel merge",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Accept or reject one option of a conflict
+  const resolveConflictMutation = useMutation({
+    mutationFn: async ({ conflictIndex, optionId, action }: {
+      conflictIndex: number;
+      optionId: string;
+      action: "accept" | "reject";
+    }) => {
+      const response = await apiRequest("POST", `/api/merge-jobs/${currentJobId}/conflicts/${conflictIndex}/resolve`, {
+        optionId,
+        action,
+      });
+      return response.json();
+    },
+    onSuccess: (_data, { action }) => {
+      toast({
+        title: action === "accept" ? "Conflict resolved" : "Option rejected",
+        description: action === "accept"
+          ? "The merged file has been updated with your choice."
+          : "The option has been marked as rejected.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/merge-jobs", currentJobId] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to resolve conflict",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Save a manual edit of a merged file
+  const saveFileMutation = useMutation({
+    mutationFn: async ({ path, content }: { path: string; content: string }) => {
+      const response = await apiRequest("PUT", `/api/merge-jobs/${currentJobId}/files/${encodeFilePath(path)}`, { content });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "File saved",
+        description: `${data.path} saved as revision ${data.revision}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/merge-jobs", currentJobId] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save file",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Commit the merge on a new branch and open a pull request
+  const publishMutation = useMutation({
+    mutationFn: async (config: PublishConfig) => {
+      const response = await apiRequest("POST", `/api/merge-jobs/${currentJobId}/publish`, {
+        targetUrl: config.targetUrl,
+        targetBranch: config.targetBranch || undefined,
+        branchName: config.branchName || undefined,
+        title: config.title || undefined,
+        githubToken: config.githubToken || undefined,
+        githubCredentialId: config.githubCredentialId || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setPublishDialogOpen(false);
+      toast({
+        title: "Pull request opened",
+        description: data.pullRequestUrl,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/merge-jobs", currentJobId] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to open pull request",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleLoadWorkspaces = (workspaceA: WorkspaceConfig, workspaceB: WorkspaceConfig, ai: AIConfig) => {
     setWorkspaceAConfig(workspaceA);
     setWorkspaceBConfig(workspaceB);
@@ -126,11 +278,19 @@ export default function MergeWorkspace() {
     }
   };
 
-  const handleDownloadMerged = async () => {
+  const downloadSuffixes: Record<DownloadFormat, string> = {
+    zip: ".zip",
+    conflicts: "-conflicts.zip",
+    diff: ".diff",
+    mbox: ".patch",
+    bundle: ".bundle",
+  };
+
+  const handleDownloadMerged = async (format: DownloadFormat = "zip") => {
     if (!currentJobId) return;
 
     try {
-      const response = await fetch(`/api/merge-jobs/${currentJobId}/download`);
+      const response = await fetch(`/api/merge-jobs/${currentJobId}/download?format=${format}`);
       if (!response.ok) {
         throw new Error("Download failed");
       }
@@ -139,7 +299,7 @@ export default function MergeWorkspace() {
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = `merged-workspace-${currentJobId}.zip`;
+      a.download = `merged-workspace-${currentJobId}${downloadSuffixes[format]}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -158,23 +318,14 @@ export default function MergeWorkspace() {
     }
   };
 
+  // Only completed results can be changed; a cancelled merge's partial files are view-only
+  const editable = mergeJob?.status === "completed";
+  const partialResults = mergeJob?.status === "cancelled" && !!mergeJob.mergedFiles?.length;
   const workspaceAFiles = workspaceFiles.filter(f => f.workspace === "a");
   const workspaceBFiles = workspaceFiles.filter(f => f.workspace === "b");
-
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case "pending":
-        return <Badge variant="outline">Ready to merge</Badge>;
-      case "processing":
-        return <Badge className="bg-blue-500 text-white animate-pulse">Processing</Badge>;
-      case "completed":
-        return <Badge className="bg-green-500 text-white">Completed</Badge>;
-      case "failed":
-        return <Badge variant="destructive">Failed</Badge>;
-      default:
-        return <Badge variant="outline">Unknown</Badge>;
-    }
-  };
+  const fileStatuses = Object.fromEntries(
+    (mergeJob?.mergedFiles || []).map(f => [f.path, { status: f.status, error: f.error }])
+  );
 
   return (
     <div className="min-h-screen bg-github-bg">
@@ -188,14 +339,26 @@ export default function MergeWorkspace() {
               <Badge variant="outline" className="bg-blue-100 text-blue-800">Beta</Badge>
             </div>
             <div className="flex items-center space-x-4">
+              <Button variant="ghost" size="sm" className="text-github-gray hover:text-github-dark" asChild>
+                <Link href="/history">
+                  <History className="mr-2" size={16} />
+                  History
+                </Link>
+              </Button>
               <Button variant="ghost" size="sm" className="text-github-gray hover:text-github-dark">
                 <span className="mr-2">❓</span>
                 Help
               </Button>
-              <Button variant="ghost" size="sm" className="text-github-gray hover:text-github-dark">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setCredentialsDialogOpen(true)}
+                className="text-github-gray hover:text-github-dark"
+              >
                 <span className="mr-2">⚙️</span>
                 Settings
               </Button>
+              <UserMenu />
             </div>
           </div>
         </div>
@@ -217,12 +380,15 @@ export default function MergeWorkspace() {
             <FileTree
               workspaceAFiles={workspaceAFiles}
               workspaceBFiles={workspaceBFiles}
+              fileStatuses={fileStatuses}
               onStartMerge={handleStartMerge}
               onPreviewChanges={handlePreviewChanges}
               onDownloadMerged={handleDownloadMerged}
-              canStartMerge={!!currentJobId && mergeJob?.status === "pending" && (workspaceAFiles.length > 0 || workspaceBFiles.length > 0)}
-              canDownload={mergeJob?.status === "completed"}
-              loading={startMergeMutation.isPending || mergeJob?.status === "processing"}
+              onPublishMerged={() => setPublishDialogOpen(true)}
+              canStartMerge={!!currentJobId && !!mergeJob && STARTABLE_STATUSES.includes(mergeJob.status) && (workspaceAFiles.length > 0 || workspaceBFiles.length > 0)}
+              canDownload={mergeJob?.status === "completed" || partialResults}
+              partialResults={partialResults}
+              loading={startMergeMutation.isPending || mergeJob?.status === "queued" || mergeJob?.status === "processing"}
             />
           </div>
 
@@ -237,27 +403,56 @@ export default function MergeWorkspace() {
                       <div className={`w-3 h-3 rounded-full ${
                         mergeJob?.status === "completed" ? "bg-green-500" :
                         mergeJob?.status === "processing" ? "bg-blue-500 animate-pulse" :
+                        mergeJob?.status === "queued" ? "bg-blue-300" :
                         mergeJob?.status === "failed" ? "bg-red-500" :
                         "bg-gray-400"
                       }`}></div>
-                      {mergeJob ? getStatusBadge(mergeJob.status) : <span className="text-sm text-github-gray">No active job</span>}
+                      {mergeJob ? <JobStatusBadge status={mergeJob.status} /> : <span className="text-sm text-github-gray">No active job</span>}
                     </div>
                     
                     {mergeJob && (
                       <>
                         <div className="text-sm text-github-gray">
-                          Files analyzed: <span className="font-medium">{workspaceFiles.length}</span>
+                          Files analyzed: <span className="font-medium">{workspaceAFiles.length + workspaceBFiles.length}</span>
                         </div>
                         <div className="text-sm text-github-gray">
                           Conflicts detected: <span className={`font-medium ${mergeJob.conflicts?.length ? 'text-yellow-600' : 'text-green-600'}`}>
                             {mergeJob.conflicts?.length || 0}
                           </span>
                         </div>
+                        {mergeJob.pullRequestUrl && (
+                          <a
+                            href={mergeJob.pullRequestUrl}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="flex items-center text-sm text-github-blue hover:underline"
+                          >
+                            <GitPullRequest className="mr-1" size={14} />
+                            Pull request
+                          </a>
+                        )}
+                        {!!mergeJob.failures?.length && (
+                          <div className="text-sm text-github-gray">
+                            AI failures: <span className="font-medium text-red-600">{mergeJob.failures.length}</span>
+                          </div>
+                        )}
                       </>
                     )}
                   </div>
                   
                   <div className="flex items-center space-x-2">
+                    {(mergeJob?.status === "queued" || mergeJob?.status === "processing") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => cancelMergeMutation.mutate()}
+                        disabled={cancelMergeMutation.isPending}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Square className="mr-1" size={14} />
+                        Cancel
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="sm"
@@ -275,13 +470,44 @@ export default function MergeWorkspace() {
                     </Button>
                   </div>
                 </div>
+
+                {/* Live progress while the merge runs */}
+                {mergeJob?.status === "processing" && phase && (
+                  <div className="mt-3 space-y-2">
+                    <div className="flex items-center justify-between text-sm text-github-gray">
+                      <span>
+                        {phase.message}
+                        {progress && (
+                          <> — file {progress.current} of {progress.total}: <span className="font-mono">{progress.filePath}</span></>
+                        )}
+                      </span>
+                      {fileResults.length > 0 && (
+                        <span>{fileResults.length} file(s) done</span>
+                      )}
+                    </div>
+                    {progress && <Progress value={(progress.current / progress.total) * 100} className="h-2" />}
+                  </div>
+                )}
               </CardContent>
             </Card>
 
             {/* Code Diff Viewer */}
             <CodeDiffViewer
+              jobId={currentJobId}
               mergedFiles={mergeJob?.mergedFiles || []}
               conflicts={mergeJob?.conflicts || []}
+              workspaceFiles={workspaceFiles}
+              selectedFile={selectedFilePath}
+              onSelectFile={(path) => currentJobId && navigate(jobFileUrl(currentJobId, path))}
+              onResolveConflict={editable ? (conflictIndex, optionId) =>
+                resolveConflictMutation.mutate({ conflictIndex, optionId, action: "accept" }) : undefined
+              }
+              onRejectOption={editable ? (conflictIndex, optionId) =>
+                resolveConflictMutation.mutate({ conflictIndex, optionId, action: "reject" }) : undefined
+              }
+              resolving={resolveConflictMutation.isPending}
+              onSaveFile={editable ? (path, content) => saveFileMutation.mutate({ path, content }) : undefined}
+              saving={saveFileMutation.isPending}
             />
 
             {/* Merge Summary */}
@@ -290,6 +516,23 @@ export default function MergeWorkspace() {
         </div>
       </div>
 
+      <PublishDialog
+        open={publishDialogOpen}
+        onOpenChange={setPublishDialogOpen}
+        defaults={{
+          targetUrl: mergeJob?.workspaceAUrl || formConfig?.workspaceA?.url || "",
+          targetBranch: mergeJob?.workspaceABranch || formConfig?.workspaceA?.branch || "",
+          branchName: currentJobId ? `codemerge/${currentJobId.slice(0, 8)}` : "",
+          title: "",
+          githubToken: formConfig?.workspaceA?.token || "",
+          githubCredentialId: mergeJob?.githubCredentialAId || formConfig?.workspaceA?.credentialId || undefined,
+        }}
+        onPublish={(config) => publishMutation.mutate(config)}
+        loading={publishMutation.isPending}
+      />
+
+      <CredentialsDialog open={credentialsDialogOpen} onOpenChange={setCredentialsDialogOpen} />
+
       {/* Error Display */}
       {mergeJob?.status === "failed" && mergeJob.errorMessage && (
         <div className="fixed bottom-4 right-4 max-w-md">
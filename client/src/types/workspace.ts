@@ -2,11 +2,66 @@ export interface WorkspaceConfig {
   url: string;
   branch: string;
   token: string;
+  // Saved GitHub token, used when no token is entered
+  credentialId?: string;
+}
+
+export type DownloadFormat = "zip" | "conflicts" | "diff" | "mbox" | "bundle";
+
+export interface PublishConfig {
+  targetUrl: string;
+  targetBranch: string;
+  branchName: string;
+  title: string;
+  githubToken: string;
+  githubCredentialId?: string;
+}
+
+// Any provider registered on the server, see GET /api/ai-providers
+export type AIProviderName = string;
+
+export interface AIProviderInfo {
+  name: AIProviderName;
+  label: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+  requiresBaseUrl: boolean;
 }
 
 export interface AIConfig {
-  provider: "openai" | "anthropic";
+  provider: AIProviderName;
   apiKey: string;
+  // Saved AI key, used when no key is entered
+  credentialId?: string;
+  model: string;
+  baseUrl: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+// The logged-in user as returned by GET /api/user
+export interface AuthUser {
+  id: string;
+  username: string;
+  createdAt: string;
+}
+
+export type CredentialKind = "github" | "ai";
+
+// Saved credential as returned by the server; the secret itself is never sent
+export interface Credential {
+  id: string;
+  name: string;
+  kind: CredentialKind;
+  hint: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CredentialList {
+  // False when the server has no CREDENTIAL_MASTER_KEY and cannot store secrets
+  configured: boolean;
+  credentials: Credential[];
 }
 
 export interface FileTreeItem {
@@ -16,26 +71,117 @@ export interface FileTreeItem {
   isConflict?: boolean;
 }
 
+export type MergedFileStatus = "identical" | "auto-merged" | "ai-merged" | "fallback-a" | "failed" | "unresolved" | "resolved" | "edited";
+
+export interface ConflictResolution {
+  optionId: string;
+  resolvedBy: string;
+  resolvedAt: string;
+}
+
+export interface ResolutionLogEntry {
+  conflictIndex: number;
+  filePath: string;
+  optionId: string;
+  action: "accept" | "reject";
+  resolvedBy: string;
+  resolvedAt: string;
+}
+
+export interface MergeFailure {
+  filePath: string;
+  stage: "conflict_analysis" | "merge";
+  kind: "truncated" | "invalid_response" | "request_failed";
+  message: string;
+}
+
+export type JobPhase =
+  | "fetching_a"
+  | "fetching_b"
+  | "fetching_base"
+  | "analyzing"
+  | "merging"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface JobPhaseEvent {
+  type: "phase";
+  phase: JobPhase;
+  message: string;
+}
+
+export interface JobProgressEvent {
+  type: "progress";
+  phase: "analyzing" | "merging";
+  current: number;
+  total: number;
+  filePath: string;
+}
+
+export interface JobFileEvent {
+  type: "file";
+  filePath: string;
+  status: MergedFileStatus;
+  error?: string;
+}
+
+export type MergeJobState = "pending" | "queued" | "processing" | "completed" | "failed" | "cancelled";
+
 export interface MergeJobStatus {
   id: string;
-  status: "pending" | "processing" | "completed" | "failed";
+  status: MergeJobState;
   workspaceAUrl: string;
   workspaceBUrl: string;
   workspaceABranch?: string;
   workspaceBBranch?: string;
   aiProvider: string;
+  aiModel?: string;
+  aiBaseUrl?: string;
+  aiTemperature?: number;
+  aiMaxTokens?: number;
+  mergeBaseSha?: string;
   mergedFiles?: any[];
   conflicts?: any[];
+  failures?: MergeFailure[];
+  resolutionLog?: ResolutionLogEntry[];
   summary?: any;
+  publishedBranch?: string;
+  pullRequestUrl?: string;
+  githubCredentialAId?: string;
+  githubCredentialBId?: string;
+  aiCredentialId?: string;
   errorMessage?: string;
   createdAt: string;
   completedAt?: string;
 }
 
+// Entry of GET /api/merge-jobs; merged contents and conflicts are left out
+export type MergeJobListItem = Omit<MergeJobStatus, "mergedFiles" | "conflicts" | "failures" | "resolutionLog"> & {
+  conflictCount: number;
+};
+
+export interface MergeJobPage {
+  jobs: MergeJobListItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface MergedFileRevision {
+  id: string;
+  mergeJobId: string;
+  filePath: string;
+  revision: number;
+  content: string;
+  editedBy: string | null;
+  createdAt: string;
+}
+
 export interface WorkspaceFile {
   id: string;
   mergeJobId: string;
-  workspace: "a" | "b";
+  workspace: "a" | "b" | "base";
   filePath: string;
   content?: string;
   fileType?: string;
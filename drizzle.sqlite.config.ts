@@ -0,0 +1,11 @@
+import { defineConfig } from "drizzle-kit";
+
+// Schema and migrations for STORAGE_BACKEND=sqlite; drizzle.config.ts covers PostgreSQL
+export default defineConfig({
+  out: "./migrations/sqlite",
+  schema: "./server/sqlite-schema.ts",
+  dialect: "sqlite",
+  dbCredentials: {
+    url: process.env.SQLITE_PATH || "data/codemerge.db",
+  },
+});
@@ -0,0 +1,62 @@
+CREATE TABLE "merge_jobs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_a_url" text NOT NULL,
+	"workspace_b_url" text NOT NULL,
+	"workspace_a_branch" text DEFAULT 'main',
+	"workspace_b_branch" text DEFAULT 'main',
+	"status" text DEFAULT 'pending' NOT NULL,
+	"ai_provider" text NOT NULL,
+	"ai_model" text,
+	"ai_temperature" real,
+	"ai_max_tokens" integer,
+	"ai_base_url" text,
+	"merge_base_sha" text,
+	"merged_files" json,
+	"conflicts" json,
+	"failures" json,
+	"resolution_log" json,
+	"summary" json,
+	"published_branch" text,
+	"pull_request_url" text,
+	"error_message" text,
+	"created_at" timestamp DEFAULT now(),
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "merged_file_revisions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"merge_job_id" varchar,
+	"file_path" text NOT NULL,
+	"revision" integer NOT NULL,
+	"content" text NOT NULL,
+	"edited_by" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "queued_jobs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"kind" text NOT NULL,
+	"merge_job_id" varchar,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"payload" json,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer NOT NULL,
+	"run_at" timestamp NOT NULL,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "workspace_files" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"merge_job_id" varchar,
+	"workspace" text NOT NULL,
+	"file_path" text NOT NULL,
+	"content" text,
+	"file_type" text,
+	"is_conflict" boolean DEFAULT false
+);
+--> statement-breakpoint
+ALTER TABLE "merged_file_revisions" ADD CONSTRAINT "merged_file_revisions_merge_job_id_merge_jobs_id_fk" FOREIGN KEY ("merge_job_id") REFERENCES "public"."merge_jobs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "queued_jobs" ADD CONSTRAINT "queued_jobs_merge_job_id_merge_jobs_id_fk" FOREIGN KEY ("merge_job_id") REFERENCES "public"."merge_jobs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workspace_files" ADD CONSTRAINT "workspace_files_merge_job_id_merge_jobs_id_fk" FOREIGN KEY ("merge_job_id") REFERENCES "public"."merge_jobs"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "credentials" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"kind" text NOT NULL,
+	"encrypted_value" text NOT NULL,
+	"hint" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "merge_jobs" ADD COLUMN "github_credential_a_id" varchar;--> statement-breakpoint
+ALTER TABLE "merge_jobs" ADD COLUMN "github_credential_b_id" varchar;--> statement-breakpoint
+ALTER TABLE "merge_jobs" ADD COLUMN "ai_credential_id" varchar;--> statement-breakpoint
+ALTER TABLE "merge_jobs" ADD CONSTRAINT "merge_jobs_github_credential_a_id_credentials_id_fk" FOREIGN KEY ("github_credential_a_id") REFERENCES "public"."credentials"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "merge_jobs" ADD CONSTRAINT "merge_jobs_github_credential_b_id_credentials_id_fk" FOREIGN KEY ("github_credential_b_id") REFERENCES "public"."credentials"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "merge_jobs" ADD CONSTRAINT "merge_jobs_ai_credential_id_credentials_id_fk" FOREIGN KEY ("ai_credential_id") REFERENCES "public"."credentials"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,6 @@
+-- Queued jobs used to store the tokens sent with a merge in plaintext. Fail
+-- the unfinished ones and drop the payloads; the merge jobs are marked failed
+-- at startup because no queued job is left for them.
+UPDATE "queued_jobs"
+SET "status" = 'failed', "payload" = NULL, "last_error" = 'Stored secrets were removed during an upgrade', "updated_at" = now()
+WHERE "payload" IS NOT NULL;
@@ -0,0 +1,61 @@
+CREATE TABLE `merge_jobs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`workspace_a_url` text NOT NULL,
+	`workspace_b_url` text NOT NULL,
+	`workspace_a_branch` text DEFAULT 'main',
+	`workspace_b_branch` text DEFAULT 'main',
+	`status` text DEFAULT 'pending' NOT NULL,
+	`ai_provider` text NOT NULL,
+	`ai_model` text,
+	`ai_temperature` real,
+	`ai_max_tokens` integer,
+	`ai_base_url` text,
+	`merge_base_sha` text,
+	`merged_files` text,
+	`conflicts` text,
+	`failures` text,
+	`resolution_log` text,
+	`summary` text,
+	`published_branch` text,
+	`pull_request_url` text,
+	`error_message` text,
+	`created_at` integer,
+	`completed_at` integer
+);
+--> statement-breakpoint
+CREATE TABLE `merged_file_revisions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`merge_job_id` text,
+	`file_path` text NOT NULL,
+	`revision` integer NOT NULL,
+	`content` text NOT NULL,
+	`edited_by` text,
+	`created_at` integer,
+	FOREIGN KEY (`merge_job_id`) REFERENCES `merge_jobs`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `queued_jobs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`kind` text NOT NULL,
+	`merge_job_id` text,
+	`status` text DEFAULT 'queued' NOT NULL,
+	`payload` text,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`max_attempts` integer NOT NULL,
+	`run_at` integer NOT NULL,
+	`last_error` text,
+	`created_at` integer,
+	`updated_at` integer,
+	FOREIGN KEY (`merge_job_id`) REFERENCES `merge_jobs`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `workspace_files` (
+	`id` text PRIMARY KEY NOT NULL,
+	`merge_job_id` text,
+	`workspace` text NOT NULL,
+	`file_path` text NOT NULL,
+	`content` text,
+	`file_type` text,
+	`is_conflict` integer DEFAULT false,
+	FOREIGN KEY (`merge_job_id`) REFERENCES `merge_jobs`(`id`) ON UPDATE no action ON DELETE no action
+);
@@ -0,0 +1,13 @@
+CREATE TABLE `credentials` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`kind` text NOT NULL,
+	`encrypted_value` text NOT NULL,
+	`hint` text NOT NULL,
+	`created_at` integer,
+	`updated_at` integer
+);
+--> statement-breakpoint
+ALTER TABLE `merge_jobs` ADD `github_credential_a_id` text REFERENCES credentials(id) ON DELETE SET NULL;--> statement-breakpoint
+ALTER TABLE `merge_jobs` ADD `github_credential_b_id` text REFERENCES credentials(id) ON DELETE SET NULL;--> statement-breakpoint
+ALTER TABLE `merge_jobs` ADD `ai_credential_id` text REFERENCES credentials(id) ON DELETE SET NULL;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `users` (
+	`id` text PRIMARY KEY NOT NULL,
+	`username` text NOT NULL,
+	`password` text NOT NULL,
+	`created_at` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `users_username_unique` ON `users` (`username`);--> statement-breakpoint
+ALTER TABLE `credentials` ADD `user_id` text REFERENCES users(id);--> statement-breakpoint
+ALTER TABLE `merge_jobs` ADD `user_id` text REFERENCES users(id);
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE UNIQUE INDEX `merged_file_revisions_revision_idx` ON `merged_file_revisions` (`merge_job_id`,`file_path`,`revision`);
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle, type NeonDatabase } from "drizzle-orm/neon-serverless";
+import { migrate } from "drizzle-orm/neon-serverless/migrator";
+import { drizzle as drizzleSqlite, type BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { migrate as migrateSqlite } from "drizzle-orm/better-sqlite3/migrator";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import SQLite from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+import ws from "ws";
+import * as schema from "@shared/schema";
+import * as sqliteSchema from "./sqlite-schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Any Drizzle Postgres driver works, so a different client can be passed to DatabaseStorage
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+export type NeonClient = NeonDatabase<typeof schema>;
+export type SqliteDatabase = BetterSQLite3Database<typeof sqliteSchema>;
+
+// Both server/db.ts and the bundled dist/index.js sit one level below the project root
+const MIGRATIONS_FOLDER = path.resolve(import.meta.dirname, "..", "migrations");
+const SQLITE_MIGRATIONS_FOLDER = path.resolve(MIGRATIONS_FOLDER, "sqlite");
+
+export function openDatabase(connectionString: string): NeonClient {
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
+
+export async function migrateDatabase(db: NeonClient) {
+  await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+}
+
+export function openSqliteDatabase(filePath: string): SqliteDatabase {
+  fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+  const client = new SQLite(filePath);
+  // WAL lets readers continue while a merge writes its results
+  client.pragma("journal_mode = WAL");
+  client.pragma("foreign_keys = ON");
+  return drizzleSqlite({ client, schema: sqliteSchema });
+}
+
+export function migrateSqliteDatabase(db: SqliteDatabase) {
+  migrateSqlite(db, { migrationsFolder: SQLITE_MIGRATIONS_FOLDER });
+}
@@ -1,11 +1,37 @@
 import express, { type Request, Response, NextFunction } from "express";
+import session from "express-session";
+import { randomBytes } from "crypto";
 import { registerRoutes } from "./routes";
+import { setupAuth } from "./auth";
+import { prepareStorage, storage } from "./storage";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
+// A random secret is fine in development, where a restart may log everyone out
+const sessionSecret = process.env.SESSION_SECRET || (app.get("env") === "development" ? randomBytes(32).toString("hex") : undefined);
+if (!sessionSecret) {
+  throw new Error("SESSION_SECRET must be set in production");
+}
+
+// Replit serves the app through a proxy that terminates HTTPS
+app.set("trust proxy", 1);
+app.use(session({
+  secret: sessionSecret,
+  store: storage.sessionStore,
+  resave: false,
+  saveUninitialized: false,
+  cookie: {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: app.get("env") === "production",
+    maxAge: 7 * 24 * 60 * 60 * 1000,
+  },
+}));
+setupAuth(app);
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -37,6 +63,7 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await prepareStorage();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
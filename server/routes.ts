@@ -1,18 +1,77 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertMergeJobSchema } from "@shared/schema";
+import { createCredentialSchema, insertMergeJobSchema, listMergeJobsQuerySchema, publishMergeSchema, resolveConflictSchema, updateCredentialSchema, updateMergedFileSchema } from "@shared/schema";
 import { GitHubService } from "./services/github";
-import { AIMergerService } from "./services/ai-merger";
+import { summarizeMerge, type Conflict, type MergedFile, type MergeSummary } from "./services/ai-merger";
+import { applyConflictDecision } from "./services/conflict-resolution";
+import { computeChanges } from "./services/text-merge";
+import { buildPullRequestBody, buildPullRequestTitle } from "./services/pull-request";
+import { buildConflictExport } from "./services/conflict-export";
+import { jobEvents, type JobEvent } from "./services/job-events";
+import { JobQueue } from "./services/job-queue";
+import { createMergeJobHandler, failOrphanedMergeJobs, startMergeJob, STARTABLE_STATUSES } from "./services/merge-runner";
+import { createGitBundle, createMboxPatch, createUnifiedDiff, type ExportCommitInfo, type ExportFile } from "./services/git-export";
+import { getAIProviderDefinition, listAIProviders } from "./services/ai-providers";
+import { CredentialVault, CredentialVaultError } from "./services/credential-vault";
+import { requireAuth } from "./auth";
 import { z } from "zod";
 import JSZip from "jszip";
 
+// Formats the partial results of a cancelled merge can be downloaded in
+const PARTIAL_DOWNLOAD_FORMATS = ["zip", "conflicts"];
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  const vault = new CredentialVault(storage);
+
+  // Merges run on a worker queue backed by storage
+  const mergeQueue = new JobQueue(storage, {
+    concurrency: Number(process.env.MERGE_WORKER_CONCURRENCY) || 2,
+    maxAttempts: Number(process.env.MERGE_MAX_ATTEMPTS) || 3,
+    retryBaseDelayMs: Number(process.env.MERGE_RETRY_BASE_DELAY_MS) || 5000,
+    pollIntervalMs: 1000,
+  });
+  mergeQueue.register("merge", createMergeJobHandler(storage, vault));
+  await failOrphanedMergeJobs(storage);
+  await mergeQueue.start();
+
+  // Merge jobs and credentials belong to the user who created them
+  app.use(["/api/merge-jobs", "/api/credentials"], requireAuth);
+
+  // Jobs of other users answer 404, exactly like jobs that do not exist
+  app.use("/api/merge-jobs/:id", async (req, res, next) => {
+    try {
+      const job = await storage.getMergeJob(req.params.id);
+      if (!job || job.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Merge job not found" });
+      }
+      next();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
   
   // Create merge job
   app.post("/api/merge-jobs", async (req, res) => {
     try {
       const validatedData = insertMergeJobSchema.parse(req.body);
+
+      const providerDefinition = getAIProviderDefinition(validatedData.aiProvider);
+      if (!providerDefinition) {
+        return res.status(400).json({ message: `Unknown AI provider: ${validatedData.aiProvider}` });
+      }
+      if (providerDefinition.requiresBaseUrl && !validatedData.aiBaseUrl) {
+        return res.status(400).json({ message: `AI provider '${validatedData.aiProvider}' requires a base URL` });
+      }
+      validatedData.aiModel = validatedData.aiModel || providerDefinition.defaultModel;
+
+      // Saved credentials are checked here so a bad ID fails now rather than in the worker
+      const userId = req.user!.id;
+      const githubTokenA = await vault.resolve(req.body.githubTokenA, validatedData.githubCredentialAId, "github", userId);
+      const githubTokenB = await vault.resolve(req.body.githubTokenB, validatedData.githubCredentialBId, "github", userId);
+      if (validatedData.aiCredentialId) {
+        await vault.reveal(validatedData.aiCredentialId, "ai", userId);
+      }
       
       // Skip validation for well-known test repositories to avoid rate limits
       const isTestRepoA = validatedData.workspaceAUrl.includes('octocat/Hello-World') || validatedData.workspaceAUrl.includes('octocat/Spoon-Knife');
@@ -20,8 +79,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       if (!isTestRepoA || !isTestRepoB) {
         // Only validate non-test repositories if tokens are provided
-        const { githubTokenA, githubTokenB } = req.body;
-        
         if (!githubTokenA && !isTestRepoA) {
           return res.status(400).json({ message: "GitHub token required for Workspace A (private repositories or to avoid rate limits)" });
         }
@@ -58,14 +115,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      const job = await storage.createMergeJob(validatedData);
+      const job = await storage.createMergeJob({ ...validatedData, userId });
       
       // Immediately fetch and store files for preview (in background)
       setImmediate(async () => {
         try {
-          // Use tokens from request body if provided for immediate file fetching
-          const { githubTokenA, githubTokenB } = req.body;
-          
+          // Use the tokens resolved above for immediate file fetching
           const githubServiceA = new GitHubService(githubTokenA);
           const githubServiceB = new GitHubService(githubTokenB);
 
@@ -95,6 +150,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               isConflict: false,
             });
           }
+          jobEvents.publish(job.id, { type: "files_loaded", workspace: "a", count: workspaceAFiles.length });
 
           for (const file of workspaceBFiles) {
             await storage.createWorkspaceFile({
@@ -106,10 +162,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
               isConflict: false,
             });
           }
+          jobEvents.publish(job.id, { type: "files_loaded", workspace: "b", count: workspaceBFiles.length });
 
           console.log(`Loaded ${workspaceAFiles.length} files from workspace A and ${workspaceBFiles.length} files from workspace B`);
         } catch (error: any) {
           console.error("Error loading workspace files:", error.message);
+          jobEvents.publish(job.id, { type: "job_error", message: `Error loading workspace files: ${error.message}` });
           if (error.message.includes("rate limit exceeded")) {
             console.log("GitHub API rate limit exceeded. Use GitHub tokens for private repositories or try again later for public repositories.");
           }
@@ -118,10 +176,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json(job);
     } catch (error: any) {
+      // An unknown credential ID is a bad request here, not a missing resource
+      if (error instanceof CredentialVaultError) {
+        return res.status(error.httpStatus === 404 ? 400 : error.httpStatus).json({ message: error.message });
+      }
       res.status(400).json({ message: error.message });
     }
   });
 
+  // List merge jobs, newest first unless another sort order is requested
+  app.get("/api/merge-jobs", async (req, res) => {
+    try {
+      const query = listMergeJobsQuerySchema.parse(req.query);
+      const { jobs, total } = await storage.listMergeJobs(req.user!.id, query);
+
+      res.json({
+        // Leave out merged contents and conflicts, which can be large
+        jobs: jobs.map(({ mergedFiles, conflicts, failures, resolutionLog, ...job }) => ({
+          ...job,
+          conflictCount: Array.isArray(conflicts) ? conflicts.length : 0,
+        })),
+        total,
+        page: query.page,
+        pageSize: query.pageSize,
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Get merge job
   app.get("/api/merge-jobs/:id", async (req, res) => {
     try {
@@ -135,6 +221,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stream job progress as Server-Sent Events
+  app.get("/api/merge-jobs/:id/events", async (req, res) => {
+    try {
+      const job = await storage.getMergeJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Merge job not found" });
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+
+      const send = (event: JobEvent) => {
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      };
+
+      send({ type: "status", status: job.status });
+      jobEvents.latest(job.id).forEach(send);
+
+      const unsubscribe = jobEvents.subscribe(job.id, send);
+      // Comment lines keep proxies from closing an idle stream
+      const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), 25000);
+
+      req.on("close", () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Start merge process
   app.post("/api/merge-jobs/:id/merge", async (req, res) => {
     try {
@@ -145,81 +265,144 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Merge job not found" });
       }
 
-      if (job.status !== "pending") {
-        return res.status(400).json({ message: "Merge job is not in pending status" });
+      if (!STARTABLE_STATUSES.includes(job.status)) {
+        return res.status(400).json({ message: "Merge job is already queued, running or completed" });
       }
 
-      // Update job status to processing
-      await storage.updateMergeJob(job.id, { status: "processing" });
+      if (!aiApiKey && !job.aiCredentialId && getAIProviderDefinition(job.aiProvider)?.requiresApiKey) {
+        return res.status(400).json({ message: `AI provider '${job.aiProvider}' requires an API key or a saved AI credential` });
+      }
 
-      // Process merge in background (in a real app, this would be a queue/worker)
-      setImmediate(async () => {
-        try {
-          // Fetch workspace files
-          const githubServiceA = new GitHubService(githubTokenA);
-          const githubServiceB = new GitHubService(githubTokenB);
+      await startMergeJob(storage, mergeQueue, job, { githubTokenA, githubTokenB, aiApiKey });
 
-          const repoA = githubServiceA.parseGitHubUrl(job.workspaceAUrl);
-          const repoB = githubServiceB.parseGitHubUrl(job.workspaceBUrl);
+      res.json({ message: "Merge job queued" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-          const workspaceAFiles = await githubServiceA.getRepositoryFiles(
-            repoA.owner,
-            repoA.repo,
-            job.workspaceABranch || repoA.branch
-          );
+  // Cancel a queued or running merge
+  app.post("/api/merge-jobs/:id/cancel", async (req, res) => {
+    try {
+      const job = await storage.getMergeJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Merge job not found" });
+      }
 
-          const workspaceBFiles = await githubServiceB.getRepositoryFiles(
-            repoB.owner,
-            repoB.repo,
-            job.workspaceBBranch || repoB.branch
-          );
+      if (job.status !== "queued" && job.status !== "processing") {
+        return res.status(400).json({ message: "Merge job is not queued or running" });
+      }
 
-          // Store workspace files
-          await storage.deleteWorkspaceFilesByJobId(job.id);
-          
-          for (const file of workspaceAFiles) {
-            await storage.createWorkspaceFile({
-              mergeJobId: job.id,
-              workspace: "a",
-              filePath: file.path,
-              content: file.content,
-              fileType: file.type,
-              isConflict: false,
-            });
-          }
+      // A running merge is marked cancelled by the worker once its requests are aborted
+      const found = await mergeQueue.cancel(job.id);
+      if (!found) {
+        await storage.updateMergeJob(job.id, { status: "cancelled" });
+        jobEvents.publish(job.id, { type: "status", status: "cancelled" });
+      }
 
-          for (const file of workspaceBFiles) {
-            await storage.createWorkspaceFile({
-              mergeJobId: job.id,
-              workspace: "b",
-              filePath: file.path,
-              content: file.content,
-              fileType: file.type,
-              isConflict: false,
-            });
-          }
+      res.json({ message: "Merge job cancellation requested" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-          // Perform AI merge
-          const aiMerger = new AIMergerService(job.aiProvider as "openai" | "anthropic", aiApiKey);
-          const mergeResult = await aiMerger.mergeWorkspaces(workspaceAFiles, workspaceBFiles);
+  // Accept or reject one of the options of a conflict
+  app.post("/api/merge-jobs/:id/conflicts/:index/resolve", async (req, res) => {
+    try {
+      const decision = resolveConflictSchema.parse(req.body);
 
-          // Update job with results
-          await storage.updateMergeJob(job.id, {
-            status: "completed",
-            mergedFiles: mergeResult.mergedFiles,
-            conflicts: mergeResult.conflicts,
-            summary: mergeResult.summary,
-          });
+      const job = await storage.getMergeJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Merge job not found" });
+      }
 
-        } catch (error: any) {
-          await storage.updateMergeJob(job.id, {
-            status: "failed",
-            errorMessage: error.message,
-          });
-        }
+      if (job.status !== "completed" || !job.conflicts || !job.mergedFiles) {
+        return res.status(400).json({ message: "Merge job is not completed" });
+      }
+
+      const conflicts = job.conflicts as Conflict[];
+      const conflictIndex = Number(req.params.index);
+      const conflict = Number.isInteger(conflictIndex) ? conflicts[conflictIndex] : undefined;
+      if (!conflict) {
+        return res.status(404).json({ message: "Conflict not found" });
+      }
+
+      if (!conflict.options.some(option => option.id === decision.optionId)) {
+        return res.status(400).json({ message: `Unknown option '${decision.optionId}' for this conflict` });
+      }
+      if (decision.action === "reject" && conflict.resolution?.optionId === decision.optionId) {
+        return res.status(400).json({ message: "The accepted option cannot be rejected; accept another option instead" });
+      }
+
+      const files = await storage.getWorkspaceFilesByJobId(job.id);
+      const updated = await storage.updateMergeJob(job.id, applyConflictDecision(job, files, conflictIndex, decision, req.user!.username));
+      res.json(updated);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Save a manual edit of a merged file as a new revision
+  app.put("/api/merge-jobs/:id/files/:path(*)", async (req, res) => {
+    try {
+      const { content } = updateMergedFileSchema.parse(req.body);
+      const filePath = req.params.path;
+
+      const job = await storage.getMergeJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Merge job not found" });
+      }
+
+      if (job.status !== "completed" || !job.mergedFiles) {
+        return res.status(400).json({ message: "Merge job is not completed or has no merged files" });
+      }
+
+      const mergedFiles = job.mergedFiles as MergedFile[];
+      const current = mergedFiles.find(f => f.path === filePath);
+      if (!current) {
+        return res.status(404).json({ message: "Merged file not found" });
+      }
+
+      // Storage numbers the revision; the merger's output becomes revision 1
+      const { revision } = await storage.createNextFileRevision(
+        { mergeJobId: job.id, filePath, content, editedBy: req.user!.username },
+        current.content
+      );
+
+      const files = await storage.getWorkspaceFilesByJobId(job.id);
+      const contentOf = (workspace: string) =>
+        files.find(f => f.workspace === workspace && f.filePath === filePath)?.content ?? undefined;
+
+      const edited: MergedFile = {
+        ...current,
+        content,
+        status: "edited",
+        error: undefined,
+        revision,
+        changes: computeChanges(content, contentOf("a"), contentOf("b")),
+      };
+      const updatedFiles = mergedFiles.map(f => f.path === filePath ? edited : f);
+
+      await storage.updateMergeJob(job.id, {
+        mergedFiles: updatedFiles,
+        summary: summarizeMerge(
+          (job.summary as MergeSummary | null)?.totalFiles ?? updatedFiles.length,
+          updatedFiles,
+          (job.conflicts as Conflict[] | null) || []
+        ),
       });
 
-      res.json({ message: "Merge process started" });
+      res.json(edited);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Get the revision history of a merged file
+  app.get("/api/merge-jobs/:id/revisions/:path(*)", async (req, res) => {
+    try {
+      const revisions = await storage.getFileRevisions(req.params.id, req.params.path);
+      res.json(revisions);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -235,23 +418,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Download merged workspace as ZIP
+  // Download merged workspace as ZIP (optionally with conflict markers), or as a patch / bundle against workspace A
   app.get("/api/merge-jobs/:id/download", async (req, res) => {
     try {
+      const format = (req.query.format as string | undefined) || "zip";
+      if (!["zip", "conflicts", "diff", "mbox", "bundle"].includes(format)) {
+        return res.status(400).json({ message: `Unknown download format '${format}'. Use zip, conflicts, diff, mbox or bundle` });
+      }
+
       const job = await storage.getMergeJob(req.params.id);
       if (!job) {
         return res.status(404).json({ message: "Merge job not found" });
       }
 
-      if (job.status !== "completed" || !job.mergedFiles) {
+      // A cancelled merge keeps the files merged so far. Only the archives can hold
+      // them: a diff against A would show every file not merged yet as deleted
+      const partial = job.status === "cancelled" && PARTIAL_DOWNLOAD_FORMATS.includes(format);
+      if ((job.status !== "completed" && !partial) || !job.mergedFiles) {
         return res.status(400).json({ message: "Merge job is not completed or has no merged files" });
       }
 
+      const files = await storage.getWorkspaceFilesByJobId(job.id);
+
+      if (format === "diff" || format === "mbox" || format === "bundle") {
+        const workspaceA: ExportFile[] = files
+          .filter(f => f.workspace === "a")
+          .map(f => ({ path: f.filePath, content: f.content || "" }));
+        const merged: ExportFile[] = (job.mergedFiles as MergedFile[]).map(f => ({ path: f.path, content: f.content }));
+        const commit: ExportCommitInfo = {
+          message: `${buildPullRequestTitle(job)}\n\n${buildPullRequestBody(job)}`,
+          authorName: "CodeMerge AI",
+          authorEmail: "codemerge@localhost",
+          date: job.completedAt || new Date(),
+        };
+
+        if (format === "diff") {
+          res.setHeader("Content-Type", "text/x-diff; charset=utf-8");
+          res.setHeader("Content-Disposition", `attachment; filename="merged-workspace-${job.id}.diff"`);
+          return res.send(createUnifiedDiff(workspaceA, merged).diff);
+        }
+
+        if (format === "mbox") {
+          res.setHeader("Content-Type", "application/mbox");
+          res.setHeader("Content-Disposition", `attachment; filename="merged-workspace-${job.id}.patch"`);
+          return res.send(createMboxPatch(workspaceA, merged, commit));
+        }
+
+        res.setHeader("Content-Type", "application/octet-stream");
+        res.setHeader("Content-Disposition", `attachment; filename="merged-workspace-${job.id}.bundle"`);
+        return res.send(createGitBundle(workspaceA, merged, commit, `refs/heads/codemerge/${job.id.slice(0, 8)}`));
+      }
+
       const zip = new JSZip();
 
-      // Add merged files to ZIP
-      for (const file of job.mergedFiles as any[]) {
-        zip.file(file.path, file.content);
+      if (format === "conflicts") {
+        const { files: exportFiles, manifest } = buildConflictExport(job, files);
+        for (const file of exportFiles) {
+          zip.file(file.path, file.content);
+        }
+        zip.file("MERGE_CONFLICTS.json", JSON.stringify(manifest, null, 2));
+      } else {
+        // Add merged files to ZIP
+        for (const file of job.mergedFiles as any[]) {
+          zip.file(file.path, file.content);
+        }
       }
 
       // Add merge summary
@@ -264,7 +494,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const zipBuffer = await zip.generateAsync({ type: "nodebuffer" });
 
       res.setHeader("Content-Type", "application/zip");
-      res.setHeader("Content-Disposition", `attachment; filename="merged-workspace-${job.id}.zip"`);
+      res.setHeader("Content-Disposition", `attachment; filename="merged-workspace-${job.id}${format === "conflicts" ? "-conflicts" : ""}.zip"`);
       res.send(zipBuffer);
 
     } catch (error: any) {
@@ -272,6 +502,128 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Commit the merged workspace on a new branch and open a pull request
+  app.post("/api/merge-jobs/:id/publish", async (req, res) => {
+    try {
+      const { targetUrl, targetBranch, branchName, title, githubToken, githubCredentialId } = publishMergeSchema.parse(req.body);
+
+      const job = await storage.getMergeJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Merge job not found" });
+      }
+
+      if (job.status !== "completed" || !job.mergedFiles) {
+        return res.status(400).json({ message: "Merge job is not completed or has no merged files" });
+      }
+
+      const githubService = new GitHubService(await vault.resolve(githubToken, githubCredentialId, "github", req.user!.id));
+      let target;
+      try {
+        target = githubService.parseGitHubUrl(targetUrl);
+        target.branch = targetBranch || target.branch;
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+
+      try {
+        const result = await githubService.publishMerge({
+          target,
+          branchName: branchName || `codemerge/${job.id.slice(0, 8)}`,
+          files: (job.mergedFiles as MergedFile[]).map(f => ({ path: f.path, content: f.content })),
+          commitMessage: buildPullRequestTitle(job),
+          pullRequestTitle: title || buildPullRequestTitle(job),
+          pullRequestBody: buildPullRequestBody(job),
+        });
+
+        const updated = await storage.updateMergeJob(job.id, {
+          publishedBranch: result.branch,
+          pullRequestUrl: result.pullRequestUrl,
+        });
+        res.json(updated);
+      } catch (error: any) {
+        if (error.status === 401 || error.status === 403 || error.status === 404) {
+          return res.status(400).json({ message: `Cannot publish to ${target.owner}/${target.repo}: ${error.message}` });
+        }
+        if (error.status === 422) {
+          return res.status(409).json({ message: `Branch could not be created or pull request already exists: ${error.message}` });
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof CredentialVaultError) {
+        return res.status(error.httpStatus === 404 ? 400 : error.httpStatus).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // List saved credentials; only names, kinds and hints are returned, never the secrets
+  app.get("/api/credentials", async (req, res) => {
+    try {
+      res.json({ configured: vault.configured, credentials: await vault.list(req.user!.id) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Save a GitHub token or AI key, encrypted with the server's master key
+  app.post("/api/credentials", async (req, res) => {
+    try {
+      const { name, kind, value } = createCredentialSchema.parse(req.body);
+      const credential = await vault.create(req.user!.id, name, kind, value);
+      res.status(201).json(credential);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof CredentialVaultError) {
+        return res.status(error.httpStatus).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Rename a credential or replace its secret
+  app.put("/api/credentials/:id", async (req, res) => {
+    try {
+      const updates = updateCredentialSchema.parse(req.body);
+      const credential = await vault.update(req.params.id, req.user!.id, updates);
+      if (!credential) {
+        return res.status(404).json({ message: "Credential not found" });
+      }
+      res.json(credential);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof CredentialVaultError) {
+        return res.status(error.httpStatus).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Delete a credential; merge jobs that used it keep running on tokens sent with the request only
+  app.delete("/api/credentials/:id", async (req, res) => {
+    try {
+      const deleted = await vault.delete(req.params.id, req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Credential not found" });
+      }
+      res.status(204).end();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // List available AI providers
+  app.get("/api/ai-providers", (_req, res) => {
+    res.json(listAIProviders());
+  });
+
   // Validate GitHub repository
   app.post("/api/validate-github", async (req, res) => {
     try {
@@ -1,18 +1,81 @@
-import OpenAI from "openai";
-import Anthropic from "@anthropic-ai/sdk";
+import { z } from "zod";
 import { GitHubFile } from "./github";
+import { type AIProvider } from "./ai-providers";
+import { splitIntoRegions, joinRegions, type FileRegion } from "./file-regions";
+import { mergeText, computeChanges, splitLines, joinLines, type ConflictHunk, type MergeHunk } from "./text-merge";
+
+// Unchanged lines shown around a conflicting region so the model can place its answer
+const CONTEXT_LINES = 5;
+const DEFAULT_MAX_TOKENS = 4000;
+// Follow-up requests allowed when a response hits the output token limit
+const MAX_CONTINUATIONS = 3;
+// Files longer than this are merged region by region instead of as a whole
+const LARGE_FILE_LINES = 300;
+// Extra requests allowed when a response does not match the expected JSON schema
+const MAX_REPAIR_ATTEMPTS = 2;
+// How much of an invalid response is echoed back when asking the model to repair it
+const REPAIR_ECHO_CHARS = 2000;
+
+const conflictAnalysisSchema = z.discriminatedUnion("hasConflict", [
+  z.object({ hasConflict: z.literal(false) }),
+  z.object({
+    hasConflict: z.literal(true),
+    type: z.enum(["naming", "content", "dependency"]),
+    description: z.string().min(1),
+    recommendation: z.string().min(1),
+  }),
+]);
+
+const hunkMergeSchema = z.object({
+  mergedContent: z.string(),
+});
+
+export type MergeProgress =
+  | { type: "analyzing" | "merging"; current: number; total: number; filePath: string }
+  | { type: "file_merged"; filePath: string; status: MergedFileStatus; error?: string };
+
+export interface AIMergerOptions {
+  temperature?: number | null;
+  maxTokens?: number | null;
+  onProgress?: (progress: MergeProgress) => void;
+  // Aborts outstanding AI requests; the files merged so far are kept
+  signal?: AbortSignal;
+}
 
 export interface MergeResult {
   mergedFiles: MergedFile[];
   conflicts: Conflict[];
+  failures: MergeFailure[];
   summary: MergeSummary;
 }
 
+/**
+ * - identical: both workspaces have the same content
+ * - auto-merged: taken from one side or merged line by line without the AI
+ * - ai-merged: overlapping edits were resolved by the AI
+ * - fallback-a: the AI could not resolve some regions, workspace A's version was kept there
+ * - failed: the file could not be processed, workspace A's version was kept
+ * - unresolved: modified on one side and deleted on the other, needs a decision
+ * - resolved: a user picked one of the conflict's options
+ * - edited: a user edited the merged content by hand
+ */
+export type MergedFileStatus = "identical" | "auto-merged" | "ai-merged" | "fallback-a" | "failed" | "unresolved" | "resolved" | "edited";
+
 export interface MergedFile {
   path: string;
   content: string;
   type: string;
+  status: MergedFileStatus;
+  error?: string;
   changes: Change[];
+  // Latest revision number once the file has been edited by hand
+  revision?: number;
+}
+
+interface MergeOutcome {
+  content: string;
+  usedAI: boolean;
+  error?: string;
 }
 
 export interface Change {
@@ -28,6 +91,16 @@ export interface Conflict {
   description: string;
   recommendation: string;
   options: ConflictOption[];
+  resolution?: ConflictResolution;
+  rejectedOptions?: string[];
+  // The merged file as produced by the merger, kept once a user overrides it (null if there was none)
+  automaticResult?: MergedFile | null;
+}
+
+export interface ConflictResolution {
+  optionId: string;
+  resolvedBy: string;
+  resolvedAt: string;
 }
 
 export interface ConflictOption {
@@ -36,50 +109,122 @@ export interface ConflictOption {
   preview: string;
 }
 
+export interface MergeFailure {
+  filePath: string;
+  stage: "conflict_analysis" | "merge";
+  kind: "truncated" | "invalid_response" | "request_failed";
+  message: string;
+}
+
 export interface MergeSummary {
   totalFiles: number;
   mergedFiles: number;
+  statusCounts: Record<MergedFileStatus, number>;
   conflictsResolved: number;
   linesAdded: number;
   recommendations: string[];
 }
 
-export class AIMergerService {
-  private openai?: OpenAI;
-  private anthropic?: Anthropic;
-
-  constructor(provider: "openai" | "anthropic", apiKey: string) {
-    if (provider === "openai") {
-      this.openai = new OpenAI({ apiKey });
-    } else {
-      this.anthropic = new Anthropic({ apiKey });
+export class TruncatedResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TruncatedResponseError";
+  }
+}
+
+/**
+ * Models often wrap JSON in a markdown code fence or surround it with prose.
+ */
+function extractJSON(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf("{");
+  const end = candidate.lastIndexOf("}");
+  return start !== -1 && end > start ? candidate.substring(start, end + 1) : candidate.trim();
+}
+
+/**
+ * Detects JSON that was cut off mid-document: an unterminated string or
+ * unclosed objects/arrays.
+ */
+function isUnbalancedJSON(text: string): boolean {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (const char of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      depth++;
+    } else if (char === "}" || char === "]") {
+      depth--;
     }
   }
 
+  return inString || depth > 0;
+}
+
+export class InvalidResponseError extends Error {
+  constructor(message: string, readonly attempts: number) {
+    super(message);
+    this.name = "InvalidResponseError";
+  }
+}
+
+export class MergeCancelledError extends Error {
+  // Conflicts and files that were finished before the merge was aborted
+  constructor(readonly partial: MergeResult) {
+    super("Merge was cancelled");
+    this.name = "MergeCancelledError";
+  }
+}
+
+export class AIMergerService {
+  private failures: MergeFailure[] = [];
+
+  constructor(private provider: AIProvider, private options: AIMergerOptions = {}) {}
+
+  /**
+   * Merges workspace B into workspace A. When `baseFiles` (the contents of the
+   * merge-base commit) are given, one-sided edits are applied directly. Files
+   * changed on both sides go through a line-level merge first and only the
+   * overlapping hunks are sent to the AI.
+   */
   async mergeWorkspaces(
     workspaceAFiles: GitHubFile[],
-    workspaceBFiles: GitHubFile[]
+    workspaceBFiles: GitHubFile[],
+    baseFiles?: GitHubFile[]
   ): Promise<MergeResult> {
+    const conflicts: Conflict[] = [];
+    const mergedFiles: MergedFile[] = [];
+    const buildResult = (): MergeResult => ({
+      mergedFiles,
+      conflicts,
+      failures: this.failures,
+      summary: this.generateSummary(workspaceAFiles, workspaceBFiles, mergedFiles, conflicts),
+    });
+
     try {
-      // Analyze file structures
-      const fileAnalysis = this.analyzeFileStructures(workspaceAFiles, workspaceBFiles);
-      
+      const baseByPath = baseFiles ? new Map(baseFiles.map(f => [f.path, f])) : undefined;
+      this.failures = [];
+
       // Detect conflicts
-      const conflicts = await this.detectConflicts(workspaceAFiles, workspaceBFiles);
+      await this.detectConflicts(workspaceAFiles, workspaceBFiles, baseByPath, conflicts);
       
       // Merge files using AI
-      const mergedFiles = await this.performAIMerge(workspaceAFiles, workspaceBFiles, conflicts);
+      await this.performAIMerge(workspaceAFiles, workspaceBFiles, baseByPath, mergedFiles);
       
-      // Generate summary
-      const summary = this.generateSummary(workspaceAFiles, workspaceBFiles, mergedFiles, conflicts);
-
-      return {
-        mergedFiles,
-        conflicts,
-        summary,
-      };
+      return buildResult();
     } catch (error: any) {
-      throw new Error(`AI merge failed: ${error.message}`);
+      if (this.options.signal?.aborted) {
+        throw new MergeCancelledError(buildResult());
+      }
+      throw new Error(`AI merge failed: ${error.message}`, { cause: error });
     }
   }
 
@@ -94,37 +239,91 @@ export class AIMergerService {
     };
   }
 
+  private classifyChange(
+    fileA: GitHubFile,
+    fileB: GitHubFile,
+    baseFile?: GitHubFile
+  ): "identical" | "changed_in_a" | "changed_in_b" | "changed_in_both" {
+    if (fileA.content === fileB.content) return "identical";
+    if (baseFile?.content === fileA.content) return "changed_in_b";
+    if (baseFile?.content === fileB.content) return "changed_in_a";
+    return "changed_in_both";
+  }
+
   private async detectConflicts(
     workspaceA: GitHubFile[],
-    workspaceB: GitHubFile[]
-  ): Promise<Conflict[]> {
-    const conflicts: Conflict[] = [];
-    const { commonFiles } = this.analyzeFileStructures(workspaceA, workspaceB);
+    workspaceB: GitHubFile[],
+    baseByPath: Map<string, GitHubFile> | undefined,
+    conflicts: Conflict[]
+  ): Promise<void> {
+    const { commonFiles, uniqueToA, uniqueToB } = this.analyzeFileStructures(workspaceA, workspaceB);
+
+    for (const file of [...uniqueToA, ...uniqueToB]) {
+      if (this.isModifiedAndDeleted(file, baseByPath)) {
+        conflicts.push(this.modifyDeleteConflict(file, uniqueToA.includes(file) ? "A" : "B"));
+      }
+    }
 
-    for (const fileA of commonFiles) {
+    for (const [index, fileA] of Array.from(commonFiles.entries())) {
+      this.options.signal?.throwIfAborted();
       const fileB = workspaceB.find(f => f.path === fileA.path);
-      if (fileB && fileA.content !== fileB.content) {
-        const conflict = await this.analyzeFileConflict(fileA, fileB);
+      const baseFile = baseByPath?.get(fileA.path);
+      this.options.onProgress?.({ type: "analyzing", current: index + 1, total: commonFiles.length, filePath: fileA.path });
+      if (fileB && this.classifyChange(fileA, fileB, baseFile) === "changed_in_both") {
+        // Only overlapping edits are conflicts; disjoint ones merge cleanly
+        const textMerge = mergeText(baseFile?.content, fileA.content, fileB.content);
+        if (!textMerge.hasConflicts) continue;
+
+        const conflict = await this.analyzeFileConflict(fileA, fileB, textMerge.hunks);
         if (conflict) {
           conflicts.push(conflict);
         }
       }
     }
+  }
+
+  private isModifiedAndDeleted(file: GitHubFile, baseByPath?: Map<string, GitHubFile>): boolean {
+    const baseFile = baseByPath?.get(file.path);
+    return !!baseFile && baseFile.content !== file.content;
+  }
 
-    return conflicts;
+  private modifyDeleteConflict(file: GitHubFile, modifiedIn: "A" | "B"): Conflict {
+    const deletedIn = modifiedIn === "A" ? "B" : "A";
+    return {
+      filePath: file.path,
+      type: "content",
+      description: `Modified in Workspace ${modifiedIn} but deleted in Workspace ${deletedIn}`,
+      recommendation: `Keep the file if the changes from Workspace ${modifiedIn} are still needed`,
+      options: [
+        {
+          id: modifiedIn === "A" ? "use_a" : "use_b",
+          description: `Keep the modified file from Workspace ${modifiedIn}`,
+          preview: file.content.substring(0, 200) + "...",
+        },
+        {
+          id: modifiedIn === "A" ? "use_b" : "use_a",
+          description: `Delete the file as in Workspace ${deletedIn}`,
+          preview: "",
+        },
+      ],
+    };
   }
 
-  private async analyzeFileConflict(fileA: GitHubFile, fileB: GitHubFile): Promise<Conflict | null> {
+  private async analyzeFileConflict(
+    fileA: GitHubFile,
+    fileB: GitHubFile,
+    hunks: MergeHunk[]
+  ): Promise<Conflict | null> {
+    const conflictSections = hunks
+      .filter((hunk): hunk is ConflictHunk => hunk.kind === "conflict")
+      .map((hunk, index) => this.formatConflictHunk(hunk, index + 1))
+      .join("\n");
+
     const prompt = `
-    Analyze these two versions of the same file and identify the type of conflict:
+    Analyze the overlapping edits made to the same file in two versions and identify the type of conflict:
 
     File: ${fileA.path}
-    
-    Version A:
-    ${fileA.content}
-    
-    Version B:
-    ${fileB.content}
+    ${conflictSections}
     
     Respond with JSON in this format:
     {
@@ -135,185 +334,410 @@ export class AIMergerService {
     }
     `;
 
+    let response: z.infer<typeof conflictAnalysisSchema>;
     try {
-      let response: any;
-      
-      if (this.openai) {
-        const completion = await this.openai.chat.completions.create({
-          model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-          messages: [{ role: "user", content: prompt }],
-          response_format: { type: "json_object" },
-        });
-        response = JSON.parse(completion.choices[0].message.content || "{}");
-      } else if (this.anthropic) {
-        const message = await this.anthropic.messages.create({
-          model: "claude-sonnet-4-20250514", // newest Anthropic model
-          max_tokens: 1024,
-          messages: [{ role: "user", content: prompt }],
-        });
-        const textContent = message.content.find(block => block.type === 'text');
-        response = JSON.parse(textContent?.text || "{}");
-      }
-
-      if (response.hasConflict) {
-        return {
-          filePath: fileA.path,
-          type: response.type,
-          description: response.description,
-          recommendation: response.recommendation,
-          options: [
-            {
-              id: "use_a",
-              description: "Use Version A",
-              preview: fileA.content.substring(0, 200) + "...",
-            },
-            {
-              id: "use_b",
-              description: "Use Version B",
-              preview: fileB.content.substring(0, 200) + "...",
-            },
-            {
-              id: "ai_merge",
-              description: "AI Recommended Merge",
-              preview: response.recommendation,
-            },
-          ],
-        };
-      }
-
-      return null;
+      response = await this.requestStructured(prompt, conflictAnalysisSchema);
     } catch (error) {
-      console.error("Error analyzing file conflict:", error);
+      if (this.options.signal?.aborted) throw error;
+      this.recordFailure(fileA.path, "conflict_analysis", error);
+      // The line merge already proved the edits overlap, so the conflict must still be reported
+      response = {
+        hasConflict: true,
+        type: "content",
+        description: "Overlapping edits in both workspaces (AI analysis failed)",
+        recommendation: "Review the overlapping regions manually",
+      };
+    }
+
+    if (!response.hasConflict) {
       return null;
     }
+
+    return {
+      filePath: fileA.path,
+      type: response.type,
+      description: response.description,
+      recommendation: response.recommendation,
+      options: [
+        {
+          id: "use_a",
+          description: "Use Version A",
+          preview: fileA.content.substring(0, 200) + "...",
+        },
+        {
+          id: "use_b",
+          description: "Use Version B",
+          preview: fileB.content.substring(0, 200) + "...",
+        },
+        {
+          id: "ai_merge",
+          description: "AI Recommended Merge",
+          preview: response.recommendation,
+        },
+      ],
+    };
   }
 
   private async performAIMerge(
     workspaceA: GitHubFile[],
     workspaceB: GitHubFile[],
-    conflicts: Conflict[]
-  ): Promise<MergedFile[]> {
-    const mergedFiles: MergedFile[] = [];
+    baseByPath: Map<string, GitHubFile> | undefined,
+    mergedFiles: MergedFile[]
+  ): Promise<void> {
     const { commonFiles, uniqueToA, uniqueToB } = this.analyzeFileStructures(workspaceA, workspaceB);
 
+    // A file missing from one side but present and untouched in the base was deleted there
+    const isDeletedOnOtherSide = (file: GitHubFile) =>
+      baseByPath?.get(file.path)?.content === file.content;
+
     // Add unique files from both workspaces
     for (const file of uniqueToA) {
+      if (isDeletedOnOtherSide(file)) continue;
+      const unresolved = this.isModifiedAndDeleted(file, baseByPath);
       mergedFiles.push({
         path: file.path,
         content: file.content,
         type: file.type,
-        changes: [{
-          type: "added",
-          lineNumber: 1,
-          content: file.content,
-          source: "workspace_a",
-        }],
+        status: unresolved ? "unresolved" : "auto-merged",
+        error: unresolved ? "Deleted in Workspace B but modified in Workspace A" : undefined,
+        changes: computeChanges(file.content, file.content),
       });
     }
 
     for (const file of uniqueToB) {
+      if (isDeletedOnOtherSide(file)) continue;
+      const unresolved = this.isModifiedAndDeleted(file, baseByPath);
       mergedFiles.push({
         path: file.path,
         content: file.content,
         type: file.type,
-        changes: [{
-          type: "added",
-          lineNumber: 1,
-          content: file.content,
-          source: "workspace_b",
-        }],
+        status: unresolved ? "unresolved" : "auto-merged",
+        error: unresolved ? "Deleted in Workspace A but modified in Workspace B" : undefined,
+        changes: computeChanges(file.content, undefined, file.content),
       });
     }
 
+    for (const file of mergedFiles) {
+      this.reportMerged(file);
+    }
+
     // Merge common files
-    for (const fileA of commonFiles) {
+    for (const [index, fileA] of Array.from(commonFiles.entries())) {
+      this.options.signal?.throwIfAborted();
       const fileB = workspaceB.find(f => f.path === fileA.path);
-      if (fileB) {
-        const mergedFile = await this.mergeFileContents(fileA, fileB);
-        mergedFiles.push(mergedFile);
+      if (!fileB) continue;
+
+      this.options.onProgress?.({ type: "merging", current: index + 1, total: commonFiles.length, filePath: fileA.path });
+      try {
+        mergedFiles.push(await this.mergeFileContents(fileA, fileB, baseByPath?.get(fileA.path)));
+      } catch (error: any) {
+        if (this.options.signal?.aborted) throw error;
+        // One broken file must not take the whole job down
+        console.error(`Error merging ${fileA.path}:`, error.message);
+        mergedFiles.push({
+          path: fileA.path,
+          content: fileA.content,
+          type: fileA.type,
+          status: "failed",
+          error: error.message,
+          changes: [],
+        });
       }
+      this.reportMerged(mergedFiles[mergedFiles.length - 1]);
     }
+  }
 
-    return mergedFiles;
+  private reportMerged(file: MergedFile) {
+    this.options.onProgress?.({ type: "file_merged", filePath: file.path, status: file.status, error: file.error });
   }
 
-  private async mergeFileContents(fileA: GitHubFile, fileB: GitHubFile): Promise<MergedFile> {
-    if (fileA.content === fileB.content) {
-      return {
-        path: fileA.path,
-        content: fileA.content,
-        type: fileA.type,
-        changes: [],
-      };
+  private async mergeFileContents(
+    fileA: GitHubFile,
+    fileB: GitHubFile,
+    baseFile?: GitHubFile
+  ): Promise<MergedFile> {
+    let content: string;
+    let status: MergedFileStatus;
+    let error: string | undefined;
+
+    switch (this.classifyChange(fileA, fileB, baseFile)) {
+      case "identical":
+        content = fileA.content;
+        status = "identical";
+        break;
+      case "changed_in_a":
+        content = fileA.content;
+        status = "auto-merged";
+        break;
+      case "changed_in_b":
+        content = fileB.content;
+        status = "auto-merged";
+        break;
+      default: {
+        const outcome = this.isLargeFile(fileA, fileB)
+          ? await this.mergeByRegion(fileA, fileB, baseFile)
+          : await this.mergeChangedInBoth(fileA, fileB, baseFile);
+        content = outcome.content;
+        error = outcome.error;
+        status = error ? "fallback-a" : outcome.usedAI ? "ai-merged" : "auto-merged";
+      }
+    }
+
+    return {
+      path: fileA.path,
+      content,
+      type: fileA.type,
+      status,
+      error,
+      changes: computeChanges(content, fileA.content, fileB.content),
+    };
+  }
+
+  private async mergeChangedInBoth(
+    fileA: GitHubFile,
+    fileB: GitHubFile,
+    baseFile?: GitHubFile
+  ): Promise<MergeOutcome> {
+    const textMerge = mergeText(baseFile?.content, fileA.content, fileB.content);
+    const lines: string[] = [];
+    let usedAI = false;
+    let error: string | undefined;
+
+    for (let index = 0; index < textMerge.hunks.length; index++) {
+      const hunk = textMerge.hunks[index];
+
+      if (hunk.kind === "clean") {
+        lines.push(...hunk.lines);
+        continue;
+      }
+
+      const contextAfter = textMerge.hunks
+        .slice(index + 1)
+        .flatMap(next => next.kind === "clean" ? next.lines : next.a)
+        .slice(0, CONTEXT_LINES);
+
+      try {
+        lines.push(...await this.resolveConflictHunk(fileA.path, hunk, lines.slice(-CONTEXT_LINES), contextAfter));
+        usedAI = true;
+      } catch (hunkError: any) {
+        if (this.options.signal?.aborted) throw hunkError;
+        // Keep workspace A's side of this region, but never report the file as merged
+        this.recordFailure(fileA.path, "merge", hunkError);
+        error = hunkError.message;
+        lines.push(...hunk.a);
+      }
+    }
+
+    return { content: joinLines(lines), usedAI, error };
+  }
+
+  private isLargeFile(fileA: GitHubFile, fileB: GitHubFile): boolean {
+    return Math.max(splitLines(fileA.content).length, splitLines(fileB.content).length) > LARGE_FILE_LINES;
+  }
+
+  /**
+   * Splits both versions into top-level regions (functions, classes, markdown
+   * sections, JSON keys, ...), merges regions with the same key on their own
+   * and reassembles them in workspace A's order. Regions only B has are placed
+   * after the region that precedes them in B.
+   */
+  private async mergeByRegion(
+    fileA: GitHubFile,
+    fileB: GitHubFile,
+    baseFile?: GitHubFile
+  ): Promise<MergeOutcome> {
+    const regionsA = splitIntoRegions(fileA.content, fileA.type);
+    const regionsB = splitIntoRegions(fileB.content, fileB.type);
+    if (regionsA.length < 2 || regionsB.length < 2) {
+      return this.mergeChangedInBoth(fileA, fileB, baseFile);
+    }
+
+    const byKeyA = new Map(regionsA.map(region => [region.key, region]));
+    const byKeyB = new Map(regionsB.map(region => [region.key, region]));
+    const byKeyBase = baseFile
+      ? new Map(splitIntoRegions(baseFile.content, baseFile.type).map(region => [region.key, region]))
+      : undefined;
+
+    const onlyInBAfter = new Map<string | null, FileRegion[]>();
+    let previousShared: string | null = null;
+    for (const region of regionsB) {
+      if (byKeyA.has(region.key)) {
+        previousShared = region.key;
+      } else {
+        onlyInBAfter.set(previousShared, [...(onlyInBAfter.get(previousShared) || []), region]);
+      }
     }
 
+    const asFile = (file: GitHubFile, region: FileRegion): GitHubFile => ({ ...file, content: joinLines(region.lines) });
+    // A region missing from one side but untouched in the base was deleted there
+    const isDeletedOnOtherSide = (region: FileRegion) => {
+      const baseRegion = byKeyBase?.get(region.key);
+      return !!baseRegion && joinLines(baseRegion.lines) === joinLines(region.lines);
+    };
+
+    const merged: FileRegion[] = [];
+    let usedAI = false;
+    let error: string | undefined;
+
+    const addOnlyInB = (after: string | null) => {
+      for (const region of onlyInBAfter.get(after) || []) {
+        if (!isDeletedOnOtherSide(region)) merged.push(region);
+      }
+    };
+
+    addOnlyInB(null);
+    for (const regionA of regionsA) {
+      const regionB = byKeyB.get(regionA.key);
+
+      if (regionB) {
+        const baseRegion = byKeyBase?.get(regionA.key);
+        const result = await this.mergeChangedInBoth(
+          asFile(fileA, regionA),
+          asFile(fileB, regionB),
+          baseRegion && baseFile ? asFile(baseFile, baseRegion) : undefined
+        );
+        usedAI = usedAI || result.usedAI;
+        error = error || result.error;
+        merged.push({ key: regionA.key, lines: splitLines(result.content) });
+      } else if (!isDeletedOnOtherSide(regionA)) {
+        merged.push(regionA);
+      }
+
+      addOnlyInB(regionA.key);
+    }
+
+    return { content: joinRegions(merged, fileA.type), usedAI, error };
+  }
+
+  private async resolveConflictHunk(
+    filePath: string,
+    hunk: ConflictHunk,
+    contextBefore: string[],
+    contextAfter: string[]
+  ): Promise<string[]> {
     const prompt = `
-    Intelligently merge these two versions of the same file. The goal is to combine functionality from both versions while maintaining code quality and consistency.
+    Intelligently merge two conflicting edits made to the same region of a file. The goal is to combine functionality from both versions while maintaining code quality and consistency.
+
+    File: ${filePath}
+
+    Lines before the region (unchanged, do not repeat them):
+    ${joinLines(contextBefore)}
+    ${this.formatConflictHunk(hunk, 1)}
+    Lines after the region (unchanged, do not repeat them):
+    ${joinLines(contextAfter)}
+
+    Please provide merged lines for the region only that:
+    1. Combine functionality from both versions
+    2. Resolve the conflict intelligently
+    3. Fit syntactically between the surrounding lines
+    4. Preserve important functionality from both versions
 
-    File: ${fileA.path}
-    
-    Version A (Workspace A):
-    ${fileA.content}
-    
-    Version B (Workspace B):
-    ${fileB.content}
-    
-    Please provide a merged version that:
-    1. Combines functionality from both versions
-    2. Resolves any conflicts intelligently
-    3. Maintains proper code structure and syntax
-    4. Preserves important functionality from both versions
-    
     Respond with JSON in this format:
     {
-      "mergedContent": "the merged file content",
-      "changes": [
-        {
-          "type": "added" | "modified" | "removed",
-          "lineNumber": number,
-          "content": "the change description",
-          "source": "workspace_a" | "workspace_b" | "ai_generated"
-        }
-      ]
+      "mergedContent": "the merged lines for the region"
     }
     `;
 
-    try {
-      let response: any;
-      
-      if (this.openai) {
-        const completion = await this.openai.chat.completions.create({
-          model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-          messages: [{ role: "user", content: prompt }],
-          response_format: { type: "json_object" },
-        });
-        response = JSON.parse(completion.choices[0].message.content || "{}");
-      } else if (this.anthropic) {
-        const message = await this.anthropic.messages.create({
-          model: "claude-sonnet-4-20250514", // newest Anthropic model
-          max_tokens: 4000,
-          messages: [{ role: "user", content: prompt }],
-        });
-        const textContent = message.content.find(block => block.type === 'text');
-        response = JSON.parse(textContent?.text || "{}");
+    const response = await this.requestStructured(prompt, hunkMergeSchema);
+    return splitLines(response.mergedContent);
+  }
+
+  private formatConflictHunk(hunk: ConflictHunk, number: number): string {
+    const baseSection = hunk.base
+      ? `
+    Conflict ${number} - common ancestor (merge base):
+    ${joinLines(hunk.base)}
+    `
+      : "";
+
+    return `${baseSection}
+    Conflict ${number} - Version A (Workspace A):
+    ${joinLines(hunk.a)}
+
+    Conflict ${number} - Version B (Workspace B):
+    ${joinLines(hunk.b)}
+    `;
+  }
+
+  private recordFailure(filePath: string, stage: MergeFailure["stage"], error: any) {
+    console.error(`AI ${stage} failed for ${filePath}:`, error.message);
+    this.failures.push({
+      filePath,
+      stage,
+      kind: error instanceof TruncatedResponseError ? "truncated"
+        : error instanceof InvalidResponseError ? "invalid_response"
+        : "request_failed",
+      message: error.message,
+    });
+  }
+
+  /**
+   * Requests a JSON response and validates it against `schema`. Invalid
+   * responses are sent back to the model together with the validation error,
+   * up to MAX_REPAIR_ATTEMPTS times.
+   */
+  private async requestStructured<T extends z.ZodTypeAny>(prompt: string, schema: T): Promise<z.infer<T>> {
+    let currentPrompt = prompt;
+    let issue = "";
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const text = await this.requestText(currentPrompt);
+
+      try {
+        const parsed = schema.safeParse(JSON.parse(extractJSON(text)));
+        if (parsed.success) {
+          return parsed.data;
+        }
+        issue = parsed.error.issues
+          .map(i => `${i.path.join(".") || "(root)"}: ${i.message}`)
+          .join("; ");
+      } catch (error: any) {
+        issue = `invalid JSON (${error.message})`;
       }
 
-      return {
-        path: fileA.path,
-        content: response.mergedContent || fileA.content,
-        type: fileA.type,
-        changes: response.changes || [],
-      };
-    } catch (error) {
-      console.error("Error merging file contents:", error);
-      // Fallback to workspace A content
-      return {
-        path: fileA.path,
-        content: fileA.content,
-        type: fileA.type,
-        changes: [],
-      };
+      currentPrompt = `${prompt}
+
+    Your previous response could not be used: ${issue}
+    Previous response:
+    ${text.substring(0, REPAIR_ECHO_CHARS)}
+
+    Respond again with only the JSON object in the requested format.
+    `;
     }
+
+    throw new InvalidResponseError(
+      `AI response did not match the expected format after ${MAX_REPAIR_ATTEMPTS + 1} attempts: ${issue}`,
+      MAX_REPAIR_ATTEMPTS + 1
+    );
+  }
+
+  private async requestText(prompt: string): Promise<string> {
+    let text = "";
+
+    for (let attempt = 0; attempt <= MAX_CONTINUATIONS; attempt++) {
+      this.options.signal?.throwIfAborted();
+      const completion = await this.provider.complete({
+        prompt,
+        maxTokens: this.options.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: this.options.temperature ?? undefined,
+        continueFrom: attempt > 0 ? text : undefined,
+        signal: this.options.signal,
+      });
+      text += completion.text;
+
+      if (!completion.truncated && !isUnbalancedJSON(text)) {
+        return text;
+      }
+      if (!completion.truncated) {
+        throw new TruncatedResponseError("AI response ended before the JSON document was complete");
+      }
+      // Providers reject an assistant prefix that ends in whitespace
+      text = text.trimEnd();
+    }
+
+    throw new TruncatedResponseError(
+      `AI response was still truncated after ${MAX_CONTINUATIONS} continuation requests; raise the output token limit`
+    );
   }
 
   private generateSummary(
@@ -327,23 +751,58 @@ export class AIMergerService {
       ...workspaceB.map(f => f.path),
     ]).size;
 
-    const linesAdded = mergedFiles.reduce((total, file) => {
-      return total + file.changes.filter(c => c.type === "added").length;
-    }, 0);
-
-    const recommendations = [
-      "Review merged files for proper functionality",
-      "Test the integrated codebase thoroughly",
-      "Update documentation to reflect changes",
-      "Consider refactoring common patterns",
-    ];
+    return summarizeMerge(totalFiles, mergedFiles, conflicts);
+  }
+}
 
-    return {
-      totalFiles,
-      mergedFiles: mergedFiles.length,
-      conflictsResolved: conflicts.length,
-      linesAdded,
-      recommendations,
-    };
+/**
+ * Builds the job summary from the merged files. Also used to refresh the
+ * summary after a conflict has been resolved by hand.
+ */
+export function summarizeMerge(
+  totalFiles: number,
+  mergedFiles: MergedFile[],
+  conflicts: Conflict[]
+): MergeSummary {
+  const linesAdded = mergedFiles.reduce((total, file) => {
+    // Every change entry is a single line; modified lines replace older ones
+    return total + file.changes.filter(c => c.type !== "removed").length;
+  }, 0);
+
+  const statusCounts: Record<MergedFileStatus, number> = {
+    "identical": 0,
+    "auto-merged": 0,
+    "ai-merged": 0,
+    "fallback-a": 0,
+    "failed": 0,
+    "unresolved": 0,
+    "resolved": 0,
+    "edited": 0,
+  };
+  for (const file of mergedFiles) {
+    statusCounts[file.status]++;
   }
+
+  const needsAttention = mergedFiles.filter(f =>
+    f.status === "fallback-a" || f.status === "failed" || f.status === "unresolved"
+  );
+
+  const recommendations = [
+    ...(needsAttention.length > 0
+      ? [`${needsAttention.length} file(s) need manual review because they could not be merged automatically: ${needsAttention.map(f => f.path).join(", ")}`]
+      : []),
+    "Review merged files for proper functionality",
+    "Test the integrated codebase thoroughly",
+    "Update documentation to reflect changes",
+    "Consider refactoring common patterns",
+  ];
+
+  return {
+    totalFiles,
+    mergedFiles: mergedFiles.length - needsAttention.length,
+    statusCounts,
+    conflictsResolved: conflicts.filter(c => c.resolution).length,
+    linesAdded,
+    recommendations,
+  };
 }
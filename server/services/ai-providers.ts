@@ -0,0 +1,191 @@
+import OpenAI from "openai";
+import Anthropic from "@anthropic-ai/sdk";
+
+export interface AIProviderOptions {
+  apiKey: string;
+  model?: string | null;
+  baseUrl?: string | null;
+}
+
+export interface CompletionRequest {
+  prompt: string;
+  maxTokens: number;
+  temperature?: number;
+  // Partial answer from a previous, truncated completion that the model should continue
+  continueFrom?: string;
+  signal?: AbortSignal;
+}
+
+export interface CompletionResult {
+  text: string;
+  // True when generation stopped because the output token limit was reached
+  truncated: boolean;
+}
+
+const CONTINUE_INSTRUCTION = "Continue exactly where your previous response stopped. Do not repeat any text and do not add commentary.";
+
+function buildChatMessages(request: CompletionRequest): OpenAI.Chat.ChatCompletionMessageParam[] {
+  const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [{ role: "user", content: request.prompt }];
+  if (request.continueFrom) {
+    messages.push(
+      { role: "assistant", content: request.continueFrom },
+      { role: "user", content: CONTINUE_INSTRUCTION },
+    );
+  }
+  return messages;
+}
+
+export interface AIProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+export interface AIProviderDefinition {
+  label: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+  requiresBaseUrl: boolean;
+  create(options: AIProviderOptions): AIProvider;
+}
+
+export class OpenAIProvider implements AIProvider {
+  readonly name: string = "openai";
+  protected client: OpenAI;
+
+  constructor(readonly model: string, options: AIProviderOptions) {
+    this.client = new OpenAI({ apiKey: options.apiKey });
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: buildChatMessages(request),
+      // A continuation is only the tail of a JSON document, so JSON mode cannot be used for it
+      response_format: request.continueFrom ? undefined : { type: "json_object" },
+    }, { signal: request.signal });
+    const choice = completion.choices[0];
+    return {
+      text: choice.message.content || "",
+      truncated: choice.finish_reason === "length",
+    };
+  }
+}
+
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name = "openai-compatible";
+
+  constructor(model: string, options: AIProviderOptions) {
+    super(model, options);
+    // Self-hosted servers frequently run without authentication
+    this.client = new OpenAI({
+      apiKey: options.apiKey || "not-needed",
+      baseURL: options.baseUrl,
+    });
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    // JSON mode is not implemented by every compatible server, so rely on the prompt instead
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: buildChatMessages(request),
+    }, { signal: request.signal });
+    const choice = completion.choices[0];
+    return {
+      text: choice.message.content || "",
+      truncated: choice.finish_reason === "length",
+    };
+  }
+}
+
+export class AnthropicProvider implements AIProvider {
+  readonly name = "anthropic";
+  private client: Anthropic;
+
+  constructor(readonly model: string, options: AIProviderOptions) {
+    this.client = new Anthropic({ apiKey: options.apiKey });
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const message = await this.client.messages.create({
+      model: this.model,
+      max_tokens: request.maxTokens,
+      // Anthropic only accepts temperatures up to 1
+      temperature: request.temperature === undefined ? undefined : Math.min(request.temperature, 1),
+      // Prefilling the assistant turn makes Claude pick up exactly where it stopped
+      messages: request.continueFrom
+        ? [
+            { role: "user", content: request.prompt },
+            { role: "assistant", content: request.continueFrom },
+          ]
+        : [{ role: "user", content: request.prompt }],
+    }, { signal: request.signal });
+    const textContent = message.content.find(block => block.type === 'text');
+    return {
+      text: textContent?.text || "",
+      truncated: message.stop_reason === "max_tokens",
+    };
+  }
+}
+
+const providers = new Map<string, AIProviderDefinition>();
+
+export function registerAIProvider(name: string, definition: AIProviderDefinition) {
+  providers.set(name, definition);
+}
+
+export function getAIProviderDefinition(name: string): AIProviderDefinition | undefined {
+  return providers.get(name);
+}
+
+export function listAIProviders(): Array<{ name: string } & Omit<AIProviderDefinition, "create">> {
+  return Array.from(providers.entries()).map(([name, { create, ...definition }]) => ({
+    name,
+    ...definition,
+  }));
+}
+
+export function createAIProvider(name: string, options: AIProviderOptions): AIProvider {
+  const definition = providers.get(name);
+  if (!definition) {
+    throw new Error(`Unknown AI provider: ${name}`);
+  }
+  if (definition.requiresBaseUrl && !options.baseUrl) {
+    throw new Error(`AI provider '${name}' requires a base URL`);
+  }
+
+  return definition.create({
+    ...options,
+    model: options.model || definition.defaultModel,
+  });
+}
+
+registerAIProvider("openai", {
+  label: "OpenAI GPT-4",
+  // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+  defaultModel: "gpt-4o",
+  requiresApiKey: true,
+  requiresBaseUrl: false,
+  create: options => new OpenAIProvider(options.model!, options),
+});
+
+registerAIProvider("anthropic", {
+  label: "Anthropic Claude",
+  // newest Anthropic model
+  defaultModel: "claude-sonnet-4-20250514",
+  requiresApiKey: true,
+  requiresBaseUrl: false,
+  create: options => new AnthropicProvider(options.model!, options),
+});
+
+registerAIProvider("openai-compatible", {
+  label: "OpenAI-compatible endpoint",
+  defaultModel: "default",
+  requiresApiKey: false,
+  requiresBaseUrl: true,
+  create: options => new OpenAICompatibleProvider(options.model!, options),
+});
@@ -0,0 +1,89 @@
+import type { MergeJob, WorkspaceFile } from "@shared/schema";
+import type { Conflict, MergedFile, MergedFileStatus } from "./ai-merger";
+import type { ExportFile } from "./git-export";
+import { formatConflictMarkers, mergeText } from "./text-merge";
+
+// Merged files that were not conflicts but still need a look
+const ATTENTION_STATUSES: MergedFileStatus[] = ["fallback-a", "failed", "unresolved"];
+
+export interface ConflictManifestEntry {
+  path: string;
+  reason: "conflict" | "modify_delete" | MergedFileStatus;
+  description: string;
+  // Number of marker blocks written into the file
+  markerCount: number;
+}
+
+export interface ConflictManifest {
+  mergeJobId: string;
+  mergeBaseSha: string | null;
+  files: ConflictManifestEntry[];
+}
+
+/**
+ * Every merged file, except that files with a conflict nobody has resolved
+ * yet are rewritten from workspace A and B with conflict markers instead of
+ * the AI's pick.
+ */
+export function buildConflictExport(
+  job: MergeJob,
+  workspaceFiles: WorkspaceFile[]
+): { files: ExportFile[]; manifest: ConflictManifest } {
+  const mergedFiles = (job.mergedFiles as MergedFile[] | null) || [];
+  const conflicts = (job.conflicts as Conflict[] | null) || [];
+  const contentOf = (workspace: string, path: string) =>
+    workspaceFiles.find(f => f.workspace === workspace && f.filePath === path)?.content ?? undefined;
+
+  const files = new Map(mergedFiles.map(f => [f.path, f.content]));
+  const entries: ConflictManifestEntry[] = [];
+
+  for (const conflict of conflicts) {
+    if (conflict.resolution) continue;
+
+    const contentA = contentOf("a", conflict.filePath);
+    const contentB = contentOf("b", conflict.filePath);
+
+    if (contentA === undefined || contentB === undefined) {
+      // Modified on one side and deleted on the other: keep the surviving version
+      const surviving = contentA ?? contentB;
+      if (surviving !== undefined) files.set(conflict.filePath, surviving);
+      entries.push({
+        path: conflict.filePath,
+        reason: "modify_delete",
+        description: conflict.description,
+        markerCount: 0,
+      });
+      continue;
+    }
+
+    const { hunks } = mergeText(contentOf("base", conflict.filePath), contentA, contentB);
+    files.set(conflict.filePath, formatConflictMarkers(hunks, { a: "A", b: "B", base: "base" }));
+    entries.push({
+      path: conflict.filePath,
+      reason: "conflict",
+      description: conflict.description,
+      markerCount: hunks.filter(hunk => hunk.kind === "conflict").length,
+    });
+  }
+
+  for (const file of mergedFiles) {
+    if (!ATTENTION_STATUSES.includes(file.status) || entries.some(entry => entry.path === file.path)) continue;
+    entries.push({
+      path: file.path,
+      reason: file.status,
+      description: file.error || `Merged with status '${file.status}'`,
+      markerCount: 0,
+    });
+  }
+
+  return {
+    files: Array.from(files.entries())
+      .map(([path, content]) => ({ path, content }))
+      .sort((a, b) => a.path.localeCompare(b.path)),
+    manifest: {
+      mergeJobId: job.id,
+      mergeBaseSha: job.mergeBaseSha,
+      files: entries.sort((a, b) => a.path.localeCompare(b.path)),
+    },
+  };
+}
@@ -0,0 +1,102 @@
+import type { MergeJob, ResolveConflict, WorkspaceFile } from "@shared/schema";
+import { summarizeMerge, type Conflict, type MergedFile, type MergeSummary } from "./ai-merger";
+import { computeChanges } from "./text-merge";
+
+export interface ResolutionLogEntry {
+  conflictIndex: number;
+  filePath: string;
+  optionId: string;
+  action: ResolveConflict["action"];
+  resolvedBy: string;
+  resolvedAt: string;
+}
+
+/**
+ * Applies an accept or reject decision on one of the job's conflicts, taken
+ * by `resolvedBy`, and returns the job fields that change. Accepting `use_a` / `use_b` replaces
+ * the merged file with that workspace's version (or drops it when the file
+ * does not exist there); accepting `ai_merge` restores the merger's result.
+ */
+export function applyConflictDecision(
+  job: MergeJob,
+  workspaceFiles: WorkspaceFile[],
+  conflictIndex: number,
+  decision: ResolveConflict,
+  resolvedBy: string
+): Pick<MergeJob, "conflicts" | "mergedFiles" | "summary" | "resolutionLog"> {
+  const conflicts = [...(job.conflicts as Conflict[])];
+  let mergedFiles = [...(job.mergedFiles as MergedFile[])];
+  const conflict = { ...conflicts[conflictIndex] };
+  const resolvedAt = new Date().toISOString();
+
+  const rejected = new Set(conflict.rejectedOptions || []);
+
+  if (decision.action === "reject") {
+    rejected.add(decision.optionId);
+  } else {
+    rejected.delete(decision.optionId);
+
+    const current = mergedFiles.find(f => f.path === conflict.filePath) || null;
+    if (conflict.automaticResult === undefined) {
+      conflict.automaticResult = current;
+    }
+
+    const resolved = decision.optionId === "ai_merge"
+      ? conflict.automaticResult && { ...conflict.automaticResult, status: "resolved" as const, error: undefined }
+      : resolveFromWorkspace(conflict, decision.optionId, workspaceFiles);
+
+    mergedFiles = mergedFiles.filter(f => f.path !== conflict.filePath);
+    if (resolved) {
+      mergedFiles.push(resolved);
+      mergedFiles.sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    conflict.resolution = { optionId: decision.optionId, resolvedBy, resolvedAt };
+  }
+
+  conflict.rejectedOptions = Array.from(rejected);
+  conflicts[conflictIndex] = conflict;
+
+  const logEntry: ResolutionLogEntry = {
+    conflictIndex,
+    filePath: conflict.filePath,
+    optionId: decision.optionId,
+    action: decision.action,
+    resolvedBy,
+    resolvedAt,
+  };
+
+  const previousSummary = job.summary as MergeSummary | null;
+
+  return {
+    conflicts,
+    mergedFiles,
+    summary: summarizeMerge(previousSummary?.totalFiles ?? mergedFiles.length, mergedFiles, conflicts),
+    resolutionLog: [...((job.resolutionLog as ResolutionLogEntry[] | null) || []), logEntry],
+  };
+}
+
+function resolveFromWorkspace(
+  conflict: Conflict,
+  optionId: string,
+  workspaceFiles: WorkspaceFile[]
+): MergedFile | null {
+  const workspace = optionId === "use_a" ? "a" : "b";
+  const source = workspaceFiles.find(f => f.workspace === workspace && f.filePath === conflict.filePath);
+  if (!source) {
+    // The chosen side deleted the file
+    return null;
+  }
+
+  const content = source.content || "";
+  const contentA = workspaceFiles.find(f => f.workspace === "a" && f.filePath === conflict.filePath)?.content;
+  const contentB = workspaceFiles.find(f => f.workspace === "b" && f.filePath === conflict.filePath)?.content;
+
+  return {
+    path: conflict.filePath,
+    content,
+    type: source.fileType || conflict.automaticResult?.type || "text",
+    status: "resolved",
+    changes: computeChanges(content, contentA ?? undefined, contentB ?? undefined),
+  };
+}
@@ -0,0 +1,36 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { MemStorage } from "../storage";
+import { CredentialVault, CredentialVaultError } from "./credential-vault";
+
+describe("CredentialVault.resolve", () => {
+  let vault: CredentialVault;
+  let aliceId: string;
+  let bobId: string;
+
+  beforeEach(async () => {
+    const storage = new MemStorage();
+    vault = new CredentialVault(storage, "test-master-key");
+    aliceId = (await storage.createUser({ username: "alice", password: "hash.salt" })).id;
+    bobId = (await storage.createUser({ username: "bob", password: "hash.salt" })).id;
+  });
+
+  it("prefers the inline secret over the saved credential", async () => {
+    const credential = await vault.create(aliceId, "GitHub", "github", "ghp_saved");
+
+    expect(await vault.resolve("ghp_inline", credential.id, "github", aliceId)).toBe("ghp_inline");
+    expect(await vault.resolve(undefined, credential.id, "github", aliceId)).toBe("ghp_saved");
+    expect(await vault.resolve(undefined, null, "github", aliceId)).toBeUndefined();
+  });
+
+  it("rejects another user's credential even when an inline secret is sent", async () => {
+    const credential = await vault.create(bobId, "Bob's token", "github", "ghp_bob");
+
+    await expect(vault.resolve("ghp_inline", credential.id, "github", aliceId)).rejects.toMatchObject({ httpStatus: 404 });
+  });
+
+  it("rejects a credential of the wrong kind even when an inline secret is sent", async () => {
+    const credential = await vault.create(aliceId, "AI key", "ai", "sk-saved");
+
+    await expect(vault.resolve("ghp_inline", credential.id, "github", aliceId)).rejects.toBeInstanceOf(CredentialVaultError);
+  });
+});
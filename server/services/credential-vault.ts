@@ -0,0 +1,143 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+import type { Credential, CredentialKind, PublicCredential } from "@shared/schema";
+import type { IStorage } from "../storage";
+
+// Encrypted values are "v1:<iv>:<auth tag>:<ciphertext>", each part base64
+const FORMAT_VERSION = "v1";
+const KEY_SALT = "codemerge-credential-vault";
+const IV_LENGTH = 12;
+
+export class CredentialVaultError extends Error {
+  // Not named `status` so the job queue does not take a 503 for a transient failure
+  constructor(message: string, readonly httpStatus: number) {
+    super(message);
+    this.name = "CredentialVaultError";
+  }
+}
+
+export function toPublicCredential({ encryptedValue, ...credential }: Credential): PublicCredential {
+  return credential;
+}
+
+/**
+ * Stores GitHub tokens and AI keys encrypted with AES-256-GCM under a key
+ * derived from the server's master key. Secrets are only decrypted for the
+ * GitHub or AI client that needs them and are never returned by the API.
+ * Every credential belongs to one user and is invisible to everyone else.
+ * This is the only place secrets are persisted: merge jobs and queued jobs
+ * store credential IDs, tokens sent with a request stay in memory.
+ */
+export class CredentialVault {
+  private key?: Buffer;
+
+  constructor(private storage: IStorage, masterKey = process.env.CREDENTIAL_MASTER_KEY) {
+    if (masterKey) {
+      this.key = scryptSync(masterKey, KEY_SALT, 32);
+    }
+  }
+
+  get configured(): boolean {
+    return !!this.key;
+  }
+
+  async list(userId: string): Promise<PublicCredential[]> {
+    const credentials = await this.storage.listCredentials(userId);
+    return credentials.map(toPublicCredential);
+  }
+
+  async create(userId: string, name: string, kind: CredentialKind, value: string): Promise<PublicCredential> {
+    const credential = await this.storage.createCredential({
+      userId,
+      name,
+      kind,
+      encryptedValue: this.encrypt(value),
+      hint: secretHint(value),
+    });
+    return toPublicCredential(credential);
+  }
+
+  async update(id: string, userId: string, updates: { name?: string; value?: string }): Promise<PublicCredential | undefined> {
+    if (!await this.getOwned(id, userId)) return undefined;
+
+    const credential = await this.storage.updateCredential(id, {
+      ...(updates.name !== undefined && { name: updates.name }),
+      ...(updates.value !== undefined && { encryptedValue: this.encrypt(updates.value), hint: secretHint(updates.value) }),
+    });
+    return credential && toPublicCredential(credential);
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    if (!await this.getOwned(id, userId)) return false;
+    return this.storage.deleteCredential(id);
+  }
+
+  /**
+   * Decrypts a credential of `userId`, checking that it is meant for `kind`.
+   */
+  async reveal(id: string, kind: CredentialKind, userId: string | null): Promise<string> {
+    const credential = await this.getOwned(id, userId);
+    if (!credential) {
+      throw new CredentialVaultError(`Credential ${id} not found`, 404);
+    }
+    if (credential.kind !== kind) {
+      throw new CredentialVaultError(`Credential '${credential.name}' is not ${kind === "github" ? "a GitHub token" : "an AI key"}`, 400);
+    }
+    return this.decrypt(credential.encryptedValue);
+  }
+
+  /**
+   * A secret sent with the request wins over a saved credential. The
+   * credential is checked either way, so an ID the user may not use is
+   * rejected instead of being stored next to the inline secret.
+   */
+  async resolve(
+    inline: string | undefined,
+    credentialId: string | null | undefined,
+    kind: CredentialKind,
+    userId: string | null,
+  ): Promise<string | undefined> {
+    const saved = credentialId ? await this.reveal(credentialId, kind, userId) : undefined;
+    return inline || saved;
+  }
+
+  // Someone else's credential is treated as missing so its ID reveals nothing
+  private async getOwned(id: string, userId: string | null): Promise<Credential | undefined> {
+    const credential = await this.storage.getCredential(id);
+    return credential && userId && credential.userId === userId ? credential : undefined;
+  }
+
+  private requireKey(): Buffer {
+    if (!this.key) {
+      throw new CredentialVaultError("Saved credentials are disabled: set CREDENTIAL_MASTER_KEY on the server", 503);
+    }
+    return this.key;
+  }
+
+  private encrypt(value: string): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv("aes-256-gcm", this.requireKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+    return [FORMAT_VERSION, iv, cipher.getAuthTag(), ciphertext]
+      .map(part => typeof part === "string" ? part : part.toString("base64"))
+      .join(":");
+  }
+
+  private decrypt(encryptedValue: string): string {
+    const [version, iv, authTag, ciphertext] = encryptedValue.split(":");
+    if (version !== FORMAT_VERSION || !ciphertext) {
+      throw new CredentialVaultError("Stored credential has an unknown format", 500);
+    }
+
+    const decipher = createDecipheriv("aes-256-gcm", this.requireKey(), Buffer.from(iv, "base64"));
+    decipher.setAuthTag(Buffer.from(authTag, "base64"));
+    try {
+      return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf8");
+    } catch {
+      throw new CredentialVaultError("Stored credential cannot be decrypted; was CREDENTIAL_MASTER_KEY changed?", 500);
+    }
+  }
+}
+
+function secretHint(value: string): string {
+  return value.length > 8 ? `…${value.slice(-4)}` : "…";
+}
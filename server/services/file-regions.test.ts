@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from "vitest";
+import type { AIProvider } from "./ai-providers";
+import { AIMergerService } from "./ai-merger";
+import { joinRegions, splitIntoRegions } from "./file-regions";
+
+const cases: { fileType: string; content: string; keys: string[] }[] = [
+  {
+    fileType: "typescript",
+    content: [
+      'import { a } from "./a";',
+      "",
+      "// Parses the config",
+      "export async function parseConfig() {",
+      "  return {};",
+      "}",
+      "",
+      "@Injectable()",
+      "export default class Service {}",
+      "interface Options {",
+      "  x: number;",
+      "}",
+      "const x = 1;",
+      "const x = 2;",
+    ].join("\n"),
+    keys: ["import ./a", "function parseConfig", "class Service", "interface Options", "const x", "const x#2"],
+  },
+  {
+    fileType: "python",
+    content: [
+      "import os",
+      "",
+      "TIMEOUT: int = 30",
+      "",
+      "# Entry point",
+      "@cache",
+      "async def main():",
+      "    pass",
+      "",
+      "class Runner:",
+      "    def run(self):",
+      "        pass",
+    ].join("\n"),
+    keys: ["import os", "assign TIMEOUT", "def main", "class Runner"],
+  },
+  {
+    fileType: "json",
+    content: ["{", '  "name": "app",', '  "scripts": {', '    "test": "vitest"', "  },", '  "private": true', "}", ""].join("\n"),
+    keys: ["__preamble__", "key name", "key scripts", "key private", "__epilogue__"],
+  },
+  {
+    fileType: "yaml",
+    content: ["# Service", "name: app", "env:", "  - KEY", "---", "other: 1"].join("\n"),
+    keys: ["key name", "key env", "---", "key other"],
+  },
+  {
+    fileType: "markdown",
+    content: ["Intro", "# Setup", "```sh", "# not a heading", "```", "## Usage", "Text"].join("\n"),
+    keys: ["__preamble__", "heading Setup", "heading Usage"],
+  },
+];
+
+describe("splitIntoRegions", () => {
+  it.each(cases)("splits $fileType into top-level regions", ({ fileType, content, keys }) => {
+    const regions = splitIntoRegions(content, fileType);
+
+    expect(regions.map(region => region.key)).toEqual(keys);
+    expect(joinRegions(regions, fileType)).toBe(content);
+  });
+
+  it("attaches leading comments and decorators to the region that follows", () => {
+    const [, region] = splitIntoRegions("import os\n# Entry point\n@cache\ndef main():\n    pass", "python");
+
+    expect(region).toEqual({ key: "def main", lines: ["# Entry point", "@cache", "def main():", "    pass"] });
+  });
+});
+
+describe("joinRegions", () => {
+  it("rebuilds JSON separators after regions are reordered or dropped", () => {
+    const [open, name, scripts, , close] = splitIntoRegions(cases[2].content, "json");
+
+    expect(JSON.parse(joinRegions([open, scripts, name, close], "json"))).toEqual({
+      scripts: { test: "vitest" },
+      name: "app",
+    });
+  });
+});
+
+describe("region merge of a large JSON file", () => {
+  const provider: AIProvider = {
+    name: "test",
+    model: "test",
+    complete: vi.fn().mockRejectedValue(new Error("AI unavailable")),
+  };
+  const file = (members: [string, unknown][]) => ({
+    path: "data.json",
+    type: "json",
+    sha: "sha",
+    content: JSON.stringify(Object.fromEntries(members), null, 2) + "\n",
+  });
+  const members = Array.from({ length: 320 }, (_, index): [string, unknown] => [`k${index}`, index]);
+
+  it("merges a region whose only difference on one side is its trailing comma", async () => {
+    const base = file(members);
+    // A appends a member, so its "k319" line gains a comma; B edits that same line
+    const workspaceA = file([...members, ["addedInA", true]]);
+    const workspaceB = file([...members.slice(0, -1), ["k319", "changed"]]);
+
+    const result = await new AIMergerService(provider).mergeWorkspaces([workspaceA], [workspaceB], [base]);
+    const [merged] = result.mergedFiles;
+
+    expect(merged.status).toBe("auto-merged");
+    expect(JSON.parse(merged.content)).toEqual({
+      ...Object.fromEntries(members),
+      k319: "changed",
+      addedInA: true,
+    });
+    expect(result.failures.filter(failure => failure.stage === "merge")).toEqual([]);
+  });
+});
@@ -0,0 +1,256 @@
+import { splitLines, joinLines } from "./text-merge";
+
+export interface FileRegion {
+  // Identifies the region across versions, e.g. "function parseConfig" or "heading Installation"
+  key: string;
+  lines: string[];
+}
+
+const PREAMBLE_KEY = "__preamble__";
+const EPILOGUE_KEY = "__epilogue__";
+
+interface RegionRules {
+  // Returns the region key when the line opens a new top-level region
+  boundary(line: string, previousLine: string | undefined): string | null;
+  // Top-level lines (comments, decorators) that belong to the region that follows them
+  header?(line: string): boolean;
+}
+
+const isTopLevel = (line: string) => line.length > 0 && !/^\s/.test(line);
+
+const codeRules = (): RegionRules => ({
+  boundary: line => {
+    if (!isTopLevel(line) || /^[}\])]/.test(line)) return null;
+
+    const declaration = line.match(
+      /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|class|const|let|var|interface|type|enum|namespace)\s+([A-Za-z0-9_$]+)/
+    );
+    if (declaration) return `${declaration[1]} ${declaration[2]}`;
+
+    const importFrom = line.match(/^import\b.*?["']([^"']+)["']/);
+    if (importFrom) return `import ${importFrom[1]}`;
+
+    return line.trim();
+  },
+  header: line => /^(\/\/|\/\*|\*|@)/.test(line),
+});
+
+const pythonRules = (): RegionRules => ({
+  boundary: line => {
+    if (!isTopLevel(line) || /^[}\])]/.test(line)) return null;
+
+    const definition = line.match(/^(?:async\s+)?(def|class)\s+(\w+)/);
+    if (definition) return `${definition[1]} ${definition[2]}`;
+
+    const assignment = line.match(/^(\w+)\s*(?::[^=]*)?=/);
+    if (assignment) return `assign ${assignment[1]}`;
+
+    return line.trim();
+  },
+  header: line => /^(#|@)/.test(line),
+});
+
+const markdownRules = (): RegionRules => {
+  let inFence = false;
+  return {
+    boundary: line => {
+      if (/^(```|~~~)/.test(line)) inFence = !inFence;
+      if (inFence) return null;
+
+      const heading = line.match(/^#{1,6}\s+(.*)$/);
+      return heading ? `heading ${heading[1].trim()}` : null;
+    },
+  };
+};
+
+const yamlRules = (): RegionRules => ({
+  boundary: line => {
+    if (line === "---") return "---";
+    const key = line.match(/^([^\s#-][^:]*):/);
+    return key ? `key ${key[1].trim()}` : null;
+  },
+  header: line => line.startsWith("#"),
+});
+
+const stylesheetRules = (): RegionRules => ({
+  boundary: line => {
+    if (!isTopLevel(line) || line.startsWith("}")) return null;
+    return `rule ${line.replace(/\{.*$/, "").trim()}`;
+  },
+  header: line => /^(\/\/|\/\*|\*)/.test(line),
+});
+
+const sqlRules = (): RegionRules => ({
+  boundary: line => {
+    if (!isTopLevel(line) || line.startsWith(")")) return null;
+    return `statement ${line.replace(/\(.*$/, "").trim()}`;
+  },
+  header: line => line.startsWith("--"),
+});
+
+const shellRules = (): RegionRules => ({
+  boundary: line => {
+    const fn = line.match(/^(?:function\s+)?([\w-]+)\s*\(\)/);
+    return fn ? `function ${fn[1]}` : null;
+  },
+  header: line => line.startsWith("#") && !line.startsWith("#!"),
+});
+
+const envRules = (): RegionRules => ({
+  boundary: line => {
+    const variable = line.match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)=/);
+    return variable ? `variable ${variable[1]}` : null;
+  },
+  header: line => line.startsWith("#"),
+});
+
+// Paragraphs separated by blank lines, for formats without a usable structure
+const paragraphRules = (): RegionRules => ({
+  boundary: (line, previousLine) =>
+    line.trim() !== "" && (previousLine === undefined || previousLine.trim() === "")
+      ? `paragraph ${line.trim()}`
+      : null,
+});
+
+const RULES_BY_TYPE: Record<string, () => RegionRules> = {
+  javascript: codeRules,
+  typescript: codeRules,
+  python: pythonRules,
+  markdown: markdownRules,
+  yaml: yamlRules,
+  css: stylesheetRules,
+  scss: stylesheetRules,
+  sql: sqlRules,
+  shell: shellRules,
+  env: envRules,
+};
+
+/**
+ * Splits a file into top-level regions that can be matched by key between
+ * two versions. Joining the regions with joinRegions gives back the original
+ * file. JSON members are split without their separating comma, so a member
+ * that only gained or lost one compares equal.
+ */
+export function splitIntoRegions(content: string, fileType: string): FileRegion[] {
+  const lines = splitLines(content);
+  const regions = fileType === "json"
+    ? splitJSON(lines)
+    : splitWithRules(lines, (RULES_BY_TYPE[fileType] || paragraphRules)());
+
+  return uniqueKeys(regions);
+}
+
+export function joinRegions(regions: FileRegion[], fileType: string): string {
+  if (fileType !== "json") {
+    return joinLines(regions.flatMap(region => region.lines));
+  }
+
+  // Regions may have been reordered or dropped, so separators are rebuilt
+  const members = regions.filter(region => region.key !== PREAMBLE_KEY && region.key !== EPILOGUE_KEY);
+  const lastMember = members[members.length - 1];
+
+  return joinLines(regions.flatMap(region => {
+    if (region.key === PREAMBLE_KEY || region.key === EPILOGUE_KEY) return region.lines;
+
+    const lines = stripTrailingComma(region.lines);
+    if (region === lastMember) return lines;
+
+    const last = lastContentLine(lines);
+    return last === -1 ? lines : lines.map((line, index) => index === last ? `${line},` : line);
+  }));
+}
+
+function splitWithRules(lines: string[], rules: RegionRules): FileRegion[] {
+  const regions: FileRegion[] = [{ key: PREAMBLE_KEY, lines: [] }];
+  let pendingHeader: string[] = [];
+
+  lines.forEach((line, index) => {
+    const current = regions[regions.length - 1];
+
+    if (isTopLevel(line) && rules.header?.(line)) {
+      pendingHeader.push(line);
+      return;
+    }
+
+    const key = rules.boundary(line, lines[index - 1]);
+    if (key !== null) {
+      regions.push({ key, lines: [...pendingHeader, line] });
+      pendingHeader = [];
+      return;
+    }
+
+    // Indented or blank lines keep a comment block open; anything else closes it
+    if (pendingHeader.length > 0 && isTopLevel(line)) {
+      current.lines.push(...pendingHeader);
+      pendingHeader = [];
+    }
+    if (pendingHeader.length > 0) {
+      pendingHeader.push(line);
+    } else {
+      current.lines.push(line);
+    }
+  });
+
+  regions[regions.length - 1].lines.push(...pendingHeader);
+  return regions.filter(region => region.key !== PREAMBLE_KEY || region.lines.length > 0);
+}
+
+function splitJSON(lines: string[]): FileRegion[] {
+  const regions: FileRegion[] = [{ key: PREAMBLE_KEY, lines: [] }];
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (const line of lines) {
+    const memberKey = depth === 1 && !inString ? line.match(/^\s*"((?:[^"\\]|\\.)*)"\s*:/) : null;
+    const closesObject = depth === 1 && !inString && /^\s*}/.test(line);
+
+    if (memberKey) {
+      regions.push({ key: `key ${memberKey[1]}`, lines: [] });
+    } else if (closesObject) {
+      regions.push({ key: EPILOGUE_KEY, lines: [] });
+    }
+    regions[regions.length - 1].lines.push(line);
+
+    for (const char of line) {
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === "\\") escaped = true;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === "{" || char === "[") {
+        depth++;
+      } else if (char === "}" || char === "]") {
+        depth--;
+      }
+    }
+  }
+
+  return regions
+    .filter(region => region.key !== PREAMBLE_KEY || region.lines.length > 0)
+    .map(region => region.key === PREAMBLE_KEY || region.key === EPILOGUE_KEY
+      ? region
+      : { ...region, lines: stripTrailingComma(region.lines) });
+}
+
+function lastContentLine(lines: string[]): number {
+  for (let index = lines.length - 1; index >= 0; index--) {
+    if (lines[index].trim() !== "") return index;
+  }
+  return -1;
+}
+
+function stripTrailingComma(lines: string[]): string[] {
+  const last = lastContentLine(lines);
+  return lines.map((line, index) => index === last ? line.replace(/,\s*$/, "") : line);
+}
+
+function uniqueKeys(regions: FileRegion[]): FileRegion[] {
+  const seen = new Map<string, number>();
+  return regions.map(region => {
+    const count = (seen.get(region.key) || 0) + 1;
+    seen.set(region.key, count);
+    return count === 1 ? region : { ...region, key: `${region.key}#${count}` };
+  });
+}
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { execFileSync } from "child_process";
+import { createHash } from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createGitBundle, type ExportCommitInfo } from "./git-export";
+
+const hasGit = (() => {
+  try {
+    execFileSync("git", ["--version"], { stdio: "ignore" });
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+const commit: ExportCommitInfo = {
+  message: "Merge workspaces",
+  authorName: "CodeMerge AI",
+  authorEmail: "codemerge@localhost",
+  date: new Date("2024-05-01T12:00:00Z"),
+};
+const before = [
+  { path: "a.txt", content: "one\n" },
+  { path: "src/b.ts", content: "export {};\n" },
+];
+const after = [
+  { path: "a.txt", content: "two\n" },
+  { path: "src/b.ts", content: "export {};\n" },
+];
+
+describe("createGitBundle", () => {
+  it("writes a v2 bundle whose pack header and checksum are valid", () => {
+    const bundle = createGitBundle(before, after, commit, "refs/heads/codemerge");
+
+    const headerEnd = bundle.indexOf("\n\n") + 2;
+    const [signature, reference] = bundle.subarray(0, headerEnd).toString("utf-8").trim().split("\n");
+    expect(signature).toBe("# v2 git bundle");
+    expect(reference).toMatch(/^[0-9a-f]{40} refs\/heads\/codemerge$/);
+
+    const pack = bundle.subarray(headerEnd, bundle.length - 20);
+    expect(pack.subarray(0, 4).toString("ascii")).toBe("PACK");
+    expect(pack.readUInt32BE(4)).toBe(2);
+    // Blobs "one", "two" and b.ts; both root trees and the shared src tree; two commits
+    expect(pack.readUInt32BE(8)).toBe(8);
+    expect(bundle.subarray(bundle.length - 20)).toEqual(createHash("sha1").update(pack).digest());
+  });
+
+  describe.skipIf(!hasGit)("with git", () => {
+    let directory: string;
+    const git = (...args: string[]) =>
+      execFileSync("git", args, { cwd: directory, encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"] });
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), "codemerge-bundle-"));
+      git("init", "-q");
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("passes git bundle verify and fetches the merged history", () => {
+      const bundlePath = path.join(directory, "merge.bundle");
+      fs.writeFileSync(bundlePath, createGitBundle(before, after, commit, "refs/heads/codemerge"));
+
+      git("bundle", "verify", bundlePath);
+      git("fetch", "-q", bundlePath, "refs/heads/codemerge:refs/heads/codemerge");
+
+      expect(git("show", "codemerge:a.txt")).toBe("two\n");
+      expect(git("show", "codemerge~1:a.txt")).toBe("one\n");
+      expect(git("log", "--format=%s", "codemerge").trim().split("\n")).toEqual(["Merge workspaces", "Workspace A snapshot"]);
+      expect(git("diff", "--name-only", "codemerge~1", "codemerge").trim()).toBe("a.txt");
+    });
+  });
+});
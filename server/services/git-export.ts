@@ -0,0 +1,328 @@
+import { createHash } from "crypto";
+import { deflateSync } from "zlib";
+import { matchLines, splitLines } from "@shared/line-diff";
+
+// Unchanged lines shown around every hunk, as in `git diff`
+const DIFF_CONTEXT_LINES = 3;
+
+export interface ExportFile {
+  path: string;
+  content: string;
+}
+
+export interface ExportCommitInfo {
+  message: string;
+  authorName: string;
+  authorEmail: string;
+  date: Date;
+}
+
+type DiffOp = { kind: "equal" | "delete" | "insert"; line: string };
+
+interface FileLines {
+  lines: string[];
+  // False when the content does not end with a newline
+  terminated: boolean;
+}
+
+function toFileLines(content: string | undefined): FileLines {
+  if (content === undefined || content === "") return { lines: [], terminated: true };
+  const terminated = content.endsWith("\n");
+  return { lines: splitLines(terminated ? content.slice(0, -1) : content), terminated };
+}
+
+function diffOps(before: string[], after: string[]): DiffOp[] {
+  const matches = matchLines(before, after);
+  const ops: DiffOp[] = [];
+  let posBefore = 0;
+  let posAfter = 0;
+
+  for (const [indexBefore, indexAfter] of Array.from(matches.entries()).sort((x, y) => x[0] - y[0])) {
+    while (posBefore < indexBefore) ops.push({ kind: "delete", line: before[posBefore++] });
+    while (posAfter < indexAfter) ops.push({ kind: "insert", line: after[posAfter++] });
+    ops.push({ kind: "equal", line: before[posBefore] });
+    posBefore++;
+    posAfter++;
+  }
+  while (posBefore < before.length) ops.push({ kind: "delete", line: before[posBefore++] });
+  while (posAfter < after.length) ops.push({ kind: "insert", line: after[posAfter++] });
+
+  return ops;
+}
+
+// A missing final newline makes the last line differ from the same text with one
+const NO_NEWLINE_MARK = "\0";
+
+function diffKeys(file: FileLines): string[] {
+  return file.terminated || file.lines.length === 0
+    ? file.lines
+    : [...file.lines.slice(0, -1), file.lines[file.lines.length - 1] + NO_NEWLINE_MARK];
+}
+
+function formatHunks(before: FileLines, after: FileLines): string[] {
+  const ops = diffOps(diffKeys(before), diffKeys(after))
+    .map(op => ({ ...op, line: op.line.replace(NO_NEWLINE_MARK, "") }));
+  const output: string[] = [];
+  let index = 0;
+
+  while (index < ops.length) {
+    // Find the next change and the context window around it
+    while (index < ops.length && ops[index].kind === "equal") index++;
+    if (index >= ops.length) break;
+
+    const start = Math.max(0, index - DIFF_CONTEXT_LINES);
+    let end = index;
+    let equalRun = 0;
+    while (end < ops.length && equalRun <= DIFF_CONTEXT_LINES * 2) {
+      equalRun = ops[end].kind === "equal" ? equalRun + 1 : 0;
+      end++;
+    }
+    // Trim trailing context down to the allowed amount
+    end -= Math.max(0, equalRun - DIFF_CONTEXT_LINES);
+
+    let oldStart = 1;
+    let newStart = 1;
+    for (let i = 0; i < start; i++) {
+      if (ops[i].kind !== "insert") oldStart++;
+      if (ops[i].kind !== "delete") newStart++;
+    }
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter(op => op.kind !== "insert").length;
+    const newCount = hunk.filter(op => op.kind !== "delete").length;
+    const range = (lineStart: number, count: number) =>
+      count === 1 ? `${lineStart}` : `${count === 0 ? lineStart - 1 : lineStart},${count}`;
+
+    output.push(`@@ -${range(oldStart, oldCount)} +${range(newStart, newCount)} @@`);
+
+    let oldLine = oldStart - 1;
+    let newLine = newStart - 1;
+    for (const op of hunk) {
+      const prefix = op.kind === "equal" ? " " : op.kind === "delete" ? "-" : "+";
+      output.push(prefix + op.line);
+      if (op.kind !== "insert") oldLine++;
+      if (op.kind !== "delete") newLine++;
+
+      const lastOld = op.kind !== "insert" && oldLine === before.lines.length && !before.terminated;
+      const lastNew = op.kind !== "delete" && newLine === after.lines.length && !after.terminated;
+      if (lastOld || lastNew) {
+        output.push("\\ No newline at end of file");
+      }
+    }
+
+    index = end;
+  }
+
+  return output;
+}
+
+export interface DiffStat {
+  path: string;
+  insertions: number;
+  deletions: number;
+}
+
+/**
+ * Unified diff in `git diff` format from `before` to `after`. Files missing
+ * on one side are reported as created or deleted.
+ */
+export function createUnifiedDiff(before: ExportFile[], after: ExportFile[]): { diff: string; stats: DiffStat[] } {
+  const beforeByPath = new Map(before.map(f => [f.path, f.content]));
+  const afterByPath = new Map(after.map(f => [f.path, f.content]));
+  const paths = Array.from(new Set([...Array.from(beforeByPath.keys()), ...Array.from(afterByPath.keys())])).sort();
+  const sections: string[] = [];
+  const stats: DiffStat[] = [];
+
+  for (const path of paths) {
+    const oldContent = beforeByPath.get(path);
+    const newContent = afterByPath.get(path);
+    if (oldContent === newContent) continue;
+
+    const hunks = formatHunks(toFileLines(oldContent), toFileLines(newContent));
+    const header = [`diff --git a/${path} b/${path}`];
+    if (oldContent === undefined) header.push("new file mode 100644");
+    if (newContent === undefined) header.push("deleted file mode 100644");
+    header.push(`index ${blobSha(oldContent).slice(0, 7)}..${blobSha(newContent).slice(0, 7)}`);
+    header.push(oldContent === undefined ? "--- /dev/null" : `--- a/${path}`);
+    header.push(newContent === undefined ? "+++ /dev/null" : `+++ b/${path}`);
+
+    sections.push([...header, ...hunks].join("\n"));
+    stats.push({
+      path,
+      insertions: hunks.filter(line => line.startsWith("+")).length,
+      deletions: hunks.filter(line => line.startsWith("-")).length,
+    });
+  }
+
+  return { diff: sections.length > 0 ? sections.join("\n") + "\n" : "", stats };
+}
+
+/**
+ * A single patch in the mbox format written by `git format-patch`, so it can
+ * be applied with `git am`.
+ */
+export function createMboxPatch(before: ExportFile[], after: ExportFile[], commit: ExportCommitInfo): string {
+  const { diff, stats } = createUnifiedDiff(before, after);
+  const [subject, ...bodyLines] = commit.message.split("\n");
+  const commitSha = buildCommits(before, after, commit).mergeCommit.sha;
+
+  const width = Math.max(0, ...stats.map(stat => stat.path.length));
+  const insertions = stats.reduce((total, stat) => total + stat.insertions, 0);
+  const deletions = stats.reduce((total, stat) => total + stat.deletions, 0);
+  const diffstat = [
+    ...stats.map(stat =>
+      ` ${stat.path.padEnd(width)} | ${stat.insertions + stat.deletions} ${"+".repeat(Math.min(stat.insertions, 40))}${"-".repeat(Math.min(stat.deletions, 40))}`
+    ),
+    ` ${stats.length} file${stats.length === 1 ? "" : "s"} changed, ${insertions} insertion${insertions === 1 ? "" : "s"}(+), ${deletions} deletion${deletions === 1 ? "" : "s"}(-)`,
+  ];
+
+  return [
+    `From ${commitSha} Mon Sep 17 00:00:00 2001`,
+    `From: ${commit.authorName} <${commit.authorEmail}>`,
+    `Date: ${commit.date.toUTCString().replace("GMT", "+0000")}`,
+    `Subject: [PATCH] ${subject}`,
+    "",
+    ...(bodyLines.join("\n").trim() ? [bodyLines.join("\n").trim(), ""] : []),
+    "---",
+    ...diffstat,
+    "",
+    diff + "-- ",
+    "CodeMerge AI",
+    "",
+  ].join("\n");
+}
+
+interface GitObject {
+  type: "commit" | "tree" | "blob";
+  sha: string;
+  body: Buffer;
+}
+
+function gitObject(type: GitObject["type"], body: Buffer): GitObject {
+  const sha = createHash("sha1")
+    .update(`${type} ${body.length}\0`)
+    .update(body)
+    .digest("hex");
+  return { type, sha, body };
+}
+
+function blobSha(content: string | undefined): string {
+  return content === undefined ? "0".repeat(40) : gitObject("blob", Buffer.from(content, "utf-8")).sha;
+}
+
+interface TreeNode {
+  files: Map<string, string>; // name -> blob sha
+  directories: Map<string, TreeNode>;
+}
+
+function writeTree(files: ExportFile[], objects: Map<string, GitObject>): string {
+  const root: TreeNode = { files: new Map(), directories: new Map() };
+
+  for (const file of files) {
+    const blob = gitObject("blob", Buffer.from(file.content, "utf-8"));
+    objects.set(blob.sha, blob);
+
+    const parts = file.path.split("/");
+    let node = root;
+    for (const directory of parts.slice(0, -1)) {
+      if (!node.directories.has(directory)) {
+        node.directories.set(directory, { files: new Map(), directories: new Map() });
+      }
+      node = node.directories.get(directory)!;
+    }
+    node.files.set(parts[parts.length - 1], blob.sha);
+  }
+
+  const write = (node: TreeNode): string => {
+    const entries = [
+      ...Array.from(node.files.entries()).map(([name, sha]) => ({ name, sortName: name, mode: "100644", sha })),
+      ...Array.from(node.directories.entries()).map(([name, child]) => ({ name, sortName: `${name}/`, mode: "40000", sha: write(child) })),
+    ];
+    // Git orders tree entries bytewise, with directories compared as if they ended in "/"
+    entries.sort((x, y) => Buffer.compare(Buffer.from(x.sortName), Buffer.from(y.sortName)));
+
+    const body = Buffer.concat(entries.map(entry =>
+      Buffer.concat([Buffer.from(`${entry.mode} ${entry.name}\0`), Buffer.from(entry.sha, "hex")])
+    ));
+    const tree = gitObject("tree", body);
+    objects.set(tree.sha, tree);
+    return tree.sha;
+  };
+
+  return write(root);
+}
+
+function writeCommit(treeSha: string, parentSha: string | null, commit: ExportCommitInfo, objects: Map<string, GitObject>): GitObject {
+  const timestamp = `${Math.floor(commit.date.getTime() / 1000)} +0000`;
+  const identity = `${commit.authorName} <${commit.authorEmail}> ${timestamp}`;
+  const body = [
+    `tree ${treeSha}`,
+    ...(parentSha ? [`parent ${parentSha}`] : []),
+    `author ${identity}`,
+    `committer ${identity}`,
+    "",
+    commit.message.endsWith("\n") ? commit.message : `${commit.message}\n`,
+  ].join("\n");
+
+  const object = gitObject("commit", Buffer.from(body, "utf-8"));
+  objects.set(object.sha, object);
+  return object;
+}
+
+/**
+ * Two commits: a snapshot of `before` without parent and the merge result on
+ * top of it, so the history is self-contained and `git show` gives the diff.
+ */
+function buildCommits(before: ExportFile[], after: ExportFile[], commit: ExportCommitInfo) {
+  const objects = new Map<string, GitObject>();
+  const baseCommit = writeCommit(writeTree(before, objects), null, {
+    ...commit,
+    message: "Workspace A snapshot",
+  }, objects);
+  const mergeCommit = writeCommit(writeTree(after, objects), baseCommit.sha, commit, objects);
+
+  return { objects, mergeCommit };
+}
+
+function packObjectHeader(type: GitObject["type"], size: number): Buffer {
+  const typeCode = { commit: 1, tree: 2, blob: 3 }[type];
+  const bytes: number[] = [];
+  let byte = (typeCode << 4) | (size & 0x0f);
+  size >>>= 4;
+  while (size > 0) {
+    bytes.push(byte | 0x80);
+    byte = size & 0x7f;
+    size >>>= 7;
+  }
+  bytes.push(byte);
+  return Buffer.from(bytes);
+}
+
+/**
+ * A version 2 git bundle holding the synthesized history under `refName`;
+ * `git fetch <file> <refName>` or `git clone <file>` reads it.
+ */
+export function createGitBundle(
+  before: ExportFile[],
+  after: ExportFile[],
+  commit: ExportCommitInfo,
+  refName: string
+): Buffer {
+  const { objects, mergeCommit } = buildCommits(before, after, commit);
+
+  const header = Buffer.alloc(12);
+  header.write("PACK", 0, "ascii");
+  header.writeUInt32BE(2, 4);
+  header.writeUInt32BE(objects.size, 8);
+
+  const entries = Array.from(objects.values()).map(object =>
+    Buffer.concat([packObjectHeader(object.type, object.body.length), deflateSync(object.body)])
+  );
+  const pack = Buffer.concat([header, ...entries]);
+  const checksum = createHash("sha1").update(pack).digest();
+
+  return Buffer.concat([
+    Buffer.from(`# v2 git bundle\n${mergeCommit.sha} ${refName}\n\n`, "utf-8"),
+    pack,
+    checksum,
+  ]);
+}
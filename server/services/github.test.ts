@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Octokit } from "@octokit/rest";
+import { GitHubService, type PublishRequest } from "./github";
+
+// Only the endpoints publishMerge calls, answering like the GitHub API
+function mockOctokit(baseTree: Array<{ path: string; mode: string; type: string; sha: string }>) {
+  let blobs = 0;
+  const octokit = {
+    rest: {
+      git: {
+        getRef: vi.fn().mockResolvedValue({ data: { object: { sha: "base-commit" } } }),
+        getCommit: vi.fn().mockResolvedValue({ data: { tree: { sha: "base-tree" } } }),
+        getTree: vi.fn().mockResolvedValue({ data: { tree: baseTree } }),
+        createBlob: vi.fn().mockImplementation(async () => ({ data: { sha: `blob-${++blobs}` } })),
+        createTree: vi.fn().mockResolvedValue({ data: { sha: "new-tree" } }),
+        createCommit: vi.fn().mockResolvedValue({ data: { sha: "new-commit" } }),
+        createRef: vi.fn().mockResolvedValue({ data: {} }),
+      },
+      pulls: {
+        create: vi.fn().mockResolvedValue({ data: { number: 7, html_url: "https://github.com/acme/app/pull/7" } }),
+      },
+    },
+  };
+  return { octokit, service: new GitHubService(undefined, octokit as unknown as Octokit) };
+}
+
+const request: PublishRequest = {
+  target: { owner: "acme", repo: "app", branch: "main" },
+  branchName: "codemerge/merge-1",
+  files: [
+    { path: "src/index.ts", content: "export {};\n" },
+    { path: "scripts/build.sh", content: "#!/bin/sh\nnpm run build\n" },
+    { path: "src/new.ts", content: "export const x = 1;\n" },
+  ],
+  commitMessage: "Merge workspaces",
+  pullRequestTitle: "Merge workspaces",
+  pullRequestBody: "Merged by CodeMerge",
+};
+
+describe("GitHubService.publishMerge", () => {
+  it("commits the files on a new branch and opens a pull request", async () => {
+    const { octokit, service } = mockOctokit([
+      { path: "src/index.ts", mode: "100644", type: "blob", sha: "a" },
+      { path: "scripts/build.sh", mode: "100755", type: "blob", sha: "b" },
+      { path: "src/old.ts", mode: "100644", type: "blob", sha: "c" },
+      { path: "logo.png", mode: "100644", type: "blob", sha: "d" },
+      { path: "src", mode: "040000", type: "tree", sha: "e" },
+    ]);
+
+    const result = await service.publishMerge(request);
+
+    expect(octokit.rest.git.getRef).toHaveBeenCalledWith({ owner: "acme", repo: "app", ref: "heads/main" });
+    expect(octokit.rest.git.getTree).toHaveBeenCalledWith({ owner: "acme", repo: "app", tree_sha: "base-tree", recursive: "true" });
+    expect(octokit.rest.git.createBlob).toHaveBeenCalledTimes(3);
+    expect(octokit.rest.git.createBlob).toHaveBeenCalledWith({
+      owner: "acme",
+      repo: "app",
+      content: Buffer.from("export {};\n").toString("base64"),
+      encoding: "base64",
+    });
+
+    const { tree, base_tree } = octokit.rest.git.createTree.mock.calls[0][0];
+    expect(base_tree).toBe("base-tree");
+    expect(tree).toEqual(expect.arrayContaining([
+      { path: "src/index.ts", mode: "100644", type: "blob", sha: expect.any(String) },
+      // The executable bit of the existing file is kept
+      { path: "scripts/build.sh", mode: "100755", type: "blob", sha: expect.any(String) },
+      { path: "src/new.ts", mode: "100644", type: "blob", sha: expect.any(String) },
+      // Supported files missing from the merge are deleted, others are left alone
+      { path: "src/old.ts", mode: "100644", type: "blob", sha: null },
+    ]));
+    expect(tree).toHaveLength(4);
+
+    expect(octokit.rest.git.createCommit).toHaveBeenCalledWith({
+      owner: "acme",
+      repo: "app",
+      message: "Merge workspaces",
+      tree: "new-tree",
+      parents: ["base-commit"],
+    });
+    expect(octokit.rest.git.createRef).toHaveBeenCalledWith({
+      owner: "acme",
+      repo: "app",
+      ref: "refs/heads/codemerge/merge-1",
+      sha: "new-commit",
+    });
+    expect(octokit.rest.pulls.create).toHaveBeenCalledWith({
+      owner: "acme",
+      repo: "app",
+      title: "Merge workspaces",
+      body: "Merged by CodeMerge",
+      head: "codemerge/merge-1",
+      base: "main",
+    });
+
+    expect(result).toEqual({
+      branch: "codemerge/merge-1",
+      commitSha: "new-commit",
+      pullRequestNumber: 7,
+      pullRequestUrl: "https://github.com/acme/app/pull/7",
+    });
+  });
+
+  it("does not create the branch when the commit fails", async () => {
+    const { octokit, service } = mockOctokit([]);
+    octokit.rest.git.createCommit.mockRejectedValue(Object.assign(new Error("Validation Failed"), { status: 422 }));
+
+    await expect(service.publishMerge(request)).rejects.toThrow("Validation Failed");
+    expect(octokit.rest.git.createRef).not.toHaveBeenCalled();
+    expect(octokit.rest.pulls.create).not.toHaveBeenCalled();
+  });
+});
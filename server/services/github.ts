@@ -1,4 +1,12 @@
 import { Octokit } from "@octokit/rest";
+import { createHash } from "crypto";
+import JSZip from "jszip";
+
+const BLOB_BATCH_SIZE = 10;
+
+// Git file modes of a blob: regular, executable and symbolic link
+type BlobMode = "100644" | "100755" | "120000";
+const BLOB_MODES: readonly string[] = ["100644", "100755", "120000"];
 
 export interface GitHubFile {
   path: string;
@@ -13,12 +21,36 @@ export interface GitHubRepository {
   branch: string;
 }
 
+export interface PublishFile {
+  path: string;
+  content: string;
+}
+
+export interface PublishRequest {
+  target: GitHubRepository;
+  branchName: string;
+  files: PublishFile[];
+  commitMessage: string;
+  pullRequestTitle: string;
+  pullRequestBody: string;
+}
+
+export interface PublishResult {
+  branch: string;
+  commitSha: string;
+  pullRequestNumber: number;
+  pullRequestUrl: string;
+}
+
 export class GitHubService {
   private octokit: Octokit;
 
-  constructor(token?: string) {
-    this.octokit = new Octokit({
+  // An Octokit instance can be passed in to run against a mocked API; `signal`
+  // aborts every outstanding request of this service
+  constructor(token?: string, octokit?: Octokit, private signal?: AbortSignal) {
+    this.octokit = octokit || new Octokit({
       auth: token,
+      request: { signal },
     });
   }
 
@@ -36,6 +68,39 @@ export class GitHubService {
     };
   }
 
+  async resolveCommitSha(owner: string, repo: string, ref: string): Promise<string> {
+    const response = await this.octokit.rest.repos.getCommit({ owner, repo, ref });
+    return response.data.sha;
+  }
+
+  async findMergeBase(
+    repoA: GitHubRepository,
+    commitShaA: string,
+    repoB: GitHubRepository,
+    commitShaB: string
+  ): Promise<string | null> {
+    // Forks share the object store of their network, so a cross-repo compare
+    // only needs the owner prefix on the head side
+    const sameRepo = repoA.owner === repoB.owner && repoA.repo === repoB.repo;
+    const head = sameRepo ? commitShaB : `${repoB.owner}:${repoB.repo}:${commitShaB}`;
+
+    try {
+      const response = await this.octokit.rest.repos.compareCommitsWithBasehead({
+        owner: repoA.owner,
+        repo: repoA.repo,
+        basehead: `${commitShaA}...${head}`,
+        per_page: 1,
+      });
+      return response.data.merge_base_commit?.sha || null;
+    } catch (error: any) {
+      if (error.status === 404 || error.status === 422) {
+        // Unrelated histories
+        return null;
+      }
+      throw error;
+    }
+  }
+
   async getRepositoryFiles(
     owner: string,
     repo: string,
@@ -43,48 +108,208 @@ export class GitHubService {
     path: string = ""
   ): Promise<GitHubFile[]> {
     try {
-      const response = await this.octokit.rest.repos.getContent({
-        owner,
-        repo,
-        path,
-        ref: branch,
-      });
+      const commitSha = await this.resolveCommitSha(owner, repo, branch);
+      return await this.getFilesAtCommit(owner, repo, commitSha, path);
+    } catch (error: any) {
+      throw new Error(`Failed to fetch repository files: ${error.message}`);
+    }
+  }
+
+  async getFilesAtCommit(
+    owner: string,
+    repo: string,
+    commitSha: string,
+    path: string = ""
+  ): Promise<GitHubFile[]> {
+    const prefix = path ? `${path.replace(/\/+$/, "")}/` : "";
+    const isWanted = (filePath: string) =>
+      filePath.startsWith(prefix) && this.isSupportedFileType(filePath.split("/").pop() || "");
+
+    // List the whole tree in a single call
+    const treeResponse = await this.octokit.rest.git.getTree({
+      owner,
+      repo,
+      tree_sha: commitSha,
+      recursive: "true",
+    });
+
+    const blobs = new Map<string, string>();
+    for (const entry of treeResponse.data.tree) {
+      if (entry.type === "blob" && entry.path && entry.sha && isWanted(entry.path)) {
+        blobs.set(entry.path, entry.sha);
+      }
+    }
+
+    // Download all contents at once; a truncated tree means the archive is the only complete listing
+    const archive = await this.downloadArchive(owner, repo, commitSha);
+    const files: GitHubFile[] = [];
 
-      const files: GitHubFile[] = [];
-      const items = Array.isArray(response.data) ? response.data : [response.data];
+    if (archive) {
+      for (const [filePath, content] of Array.from(archive.entries())) {
+        if (!isWanted(filePath)) continue;
+        if (!blobs.has(filePath) && !treeResponse.data.truncated) continue;
 
-      for (const item of items) {
-        if (item.type === "file" && this.isSupportedFileType(item.name)) {
-          // Get file content
-          const fileResponse = await this.octokit.rest.repos.getContent({
+        files.push({
+          path: filePath,
+          content,
+          type: this.getFileType(filePath.split("/").pop() || filePath),
+          sha: blobs.get(filePath) || this.computeBlobSha(content),
+        });
+        blobs.delete(filePath);
+      }
+    }
+
+    // Anything the archive did not provide is fetched blob by blob in small batches
+    const remaining = Array.from(blobs.entries());
+    for (let i = 0; i < remaining.length; i += BLOB_BATCH_SIZE) {
+      this.signal?.throwIfAborted();
+      const batch = remaining.slice(i, i + BLOB_BATCH_SIZE);
+      const fetched = await Promise.all(
+        batch.map(async ([filePath, sha]) => {
+          const blobResponse = await this.octokit.rest.git.getBlob({ owner, repo, file_sha: sha });
+          return {
+            path: filePath,
+            content: Buffer.from(blobResponse.data.content, "base64").toString("utf-8"),
+            type: this.getFileType(filePath.split("/").pop() || filePath),
+            sha,
+          };
+        })
+      );
+      files.push(...fetched);
+    }
+
+    return files.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Commits `files` on top of the target branch as a new branch and opens a
+   * pull request from it. Files of a supported type that exist on the target
+   * branch but not in `files` are deleted; everything else is left untouched.
+   */
+  async publishMerge(request: PublishRequest): Promise<PublishResult> {
+    const { owner, repo, branch: baseBranch } = request.target;
+
+    const baseRef = await this.octokit.rest.git.getRef({ owner, repo, ref: `heads/${baseBranch}` });
+    const baseCommitSha = baseRef.data.object.sha;
+    const baseCommit = await this.octokit.rest.git.getCommit({ owner, repo, commit_sha: baseCommitSha });
+    const baseTree = await this.octokit.rest.git.getTree({
+      owner,
+      repo,
+      tree_sha: baseCommit.data.tree.sha,
+      recursive: "true",
+    });
+
+    // Files keep their mode on the target branch, e.g. executable scripts stay executable
+    const baseModes = new Map<string, BlobMode>();
+    for (const entry of baseTree.data.tree) {
+      if (entry.type === "blob" && entry.path && entry.mode && BLOB_MODES.includes(entry.mode)) {
+        baseModes.set(entry.path, entry.mode as BlobMode);
+      }
+    }
+
+    const publishedPaths = new Set(request.files.map(f => f.path));
+    const deletions = Array.from(baseModes)
+      .filter(([path]) => !publishedPaths.has(path) && this.isSupportedFileType(path.split("/").pop() || ""))
+      .map(([path, mode]) => ({ path, mode, type: "blob" as const, sha: null }));
+
+    // Upload contents as blobs in small batches
+    const blobs: Array<{ path: string; mode: BlobMode; type: "blob"; sha: string }> = [];
+    for (let i = 0; i < request.files.length; i += BLOB_BATCH_SIZE) {
+      const batch = request.files.slice(i, i + BLOB_BATCH_SIZE);
+      const created = await Promise.all(
+        batch.map(async file => {
+          const blobResponse = await this.octokit.rest.git.createBlob({
             owner,
             repo,
-            path: item.path,
-            ref: branch,
+            content: Buffer.from(file.content, "utf-8").toString("base64"),
+            encoding: "base64",
           });
+          const mode = baseModes.get(file.path) ?? "100644";
+          return { path: file.path, mode, type: "blob" as const, sha: blobResponse.data.sha };
+        })
+      );
+      blobs.push(...created);
+    }
+
+    const tree = await this.octokit.rest.git.createTree({
+      owner,
+      repo,
+      base_tree: baseCommit.data.tree.sha,
+      tree: [...blobs, ...deletions],
+    });
+
+    const commit = await this.octokit.rest.git.createCommit({
+      owner,
+      repo,
+      message: request.commitMessage,
+      tree: tree.data.sha,
+      parents: [baseCommitSha],
+    });
 
-          if ("content" in fileResponse.data) {
-            const content = Buffer.from(fileResponse.data.content, "base64").toString("utf-8");
-            files.push({
-              path: item.path,
-              content,
-              type: this.getFileType(item.name),
-              sha: item.sha,
-            });
-          }
-        } else if (item.type === "dir") {
-          // Recursively get files from subdirectories
-          const subFiles = await this.getRepositoryFiles(owner, repo, branch, item.path);
-          files.push(...subFiles);
+    await this.octokit.rest.git.createRef({
+      owner,
+      repo,
+      ref: `refs/heads/${request.branchName}`,
+      sha: commit.data.sha,
+    });
+
+    const pullRequest = await this.octokit.rest.pulls.create({
+      owner,
+      repo,
+      title: request.pullRequestTitle,
+      body: request.pullRequestBody,
+      head: request.branchName,
+      base: baseBranch,
+    });
+
+    return {
+      branch: request.branchName,
+      commitSha: commit.data.sha,
+      pullRequestNumber: pullRequest.data.number,
+      pullRequestUrl: pullRequest.data.html_url,
+    };
+  }
+
+  private async downloadArchive(
+    owner: string,
+    repo: string,
+    commitSha: string
+  ): Promise<Map<string, string> | null> {
+    try {
+      const response = await this.octokit.rest.repos.downloadZipballArchive({
+        owner,
+        repo,
+        ref: commitSha,
+      });
+
+      const zip = await JSZip.loadAsync(response.data as ArrayBuffer);
+      const contents = new Map<string, string>();
+
+      for (const entry of Object.values(zip.files)) {
+        if (entry.dir) continue;
+        // Zipballs wrap everything in a single "<owner>-<repo>-<sha>/" directory
+        const filePath = entry.name.substring(entry.name.indexOf("/") + 1);
+        if (filePath) {
+          contents.set(filePath, await entry.async("string"));
         }
       }
 
-      return files;
+      return contents;
     } catch (error: any) {
-      throw new Error(`Failed to fetch repository files: ${error.message}`);
+      if (this.signal?.aborted) throw error;
+      console.warn(`Archive download failed for ${owner}/${repo}@${commitSha}, falling back to blobs:`, error.message);
+      return null;
     }
   }
 
+  private computeBlobSha(content: string): string {
+    const body = Buffer.from(content, "utf-8");
+    return createHash("sha1")
+      .update(`blob ${body.length}\0`)
+      .update(body)
+      .digest("hex");
+  }
+
   private isSupportedFileType(filename: string): boolean {
     const supportedExtensions = [
       ".js", ".jsx", ".ts", ".tsx",
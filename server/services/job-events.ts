@@ -0,0 +1,76 @@
+import { EventEmitter } from "events";
+import type { MergedFileStatus } from "./ai-merger";
+
+export type JobPhase =
+  | "fetching_a"
+  | "fetching_b"
+  | "fetching_base"
+  | "analyzing"
+  | "merging"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export type JobEvent =
+  | { type: "status"; status: string }
+  | { type: "phase"; phase: JobPhase; message: string }
+  | { type: "progress"; phase: "analyzing" | "merging"; current: number; total: number; filePath: string }
+  | { type: "file"; filePath: string; status: MergedFileStatus; error?: string }
+  | { type: "files_loaded"; workspace: "a" | "b" | "base"; count: number }
+  // Not "error", which EventSource reserves for connection failures
+  | { type: "job_error"; message: string };
+
+type JobEventListener = (event: JobEvent) => void;
+
+const TERMINAL_STATUSES = ["completed", "failed", "cancelled"];
+
+/**
+ * In-process publish/subscribe channel for merge job progress. The latest
+ * phase and progress events are kept so late subscribers can catch up, and
+ * dropped once the job has finished and its last subscriber has left.
+ */
+class JobEventBus {
+  private emitter = new EventEmitter();
+  private latestByJob = new Map<string, { phase?: JobEvent; progress?: JobEvent; finished?: boolean }>();
+
+  constructor() {
+    // Every open event stream is a listener
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(jobId: string, event: JobEvent) {
+    if (event.type === "phase") {
+      // Progress belongs to the phase it was reported in
+      this.latestByJob.set(jobId, { phase: event });
+    } else if (event.type === "progress") {
+      this.latestByJob.set(jobId, { ...this.latestByJob.get(jobId), progress: event });
+    } else if (event.type === "status") {
+      const latest = this.latestByJob.get(jobId);
+      // A retried job goes back to "queued", so this is cleared again
+      if (latest) latest.finished = TERMINAL_STATUSES.includes(event.status);
+    }
+    this.emitter.emit(jobId, event);
+    this.release(jobId);
+  }
+
+  subscribe(jobId: string, listener: JobEventListener): () => void {
+    this.emitter.on(jobId, listener);
+    return () => {
+      this.emitter.off(jobId, listener);
+      this.release(jobId);
+    };
+  }
+
+  latest(jobId: string): JobEvent[] {
+    const latest = this.latestByJob.get(jobId);
+    return [latest?.phase, latest?.progress].filter((event): event is JobEvent => !!event);
+  }
+
+  private release(jobId: string) {
+    if (this.latestByJob.get(jobId)?.finished && this.emitter.listenerCount(jobId) === 0) {
+      this.latestByJob.delete(jobId);
+    }
+  }
+}
+
+export const jobEvents = new JobEventBus();
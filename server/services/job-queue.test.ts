@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { InsertMergeJob } from "@shared/schema";
+import { MemStorage } from "../storage";
+import { JobQueue, type JobHandler, type JobQueueOptions } from "./job-queue";
+import { failOrphanedMergeJobs } from "./merge-runner";
+
+// Lets storage calls and handler callbacks run; setImmediate is not faked
+const settle = async () => {
+  for (let i = 0; i < 10; i++) await new Promise(resolve => setImmediate(resolve));
+};
+
+const httpError = (message: string, status: number) => Object.assign(new Error(message), { status });
+
+function stubHandler(run: JobHandler["run"]) {
+  return {
+    run: vi.fn(run),
+    onRetry: vi.fn<NonNullable<JobHandler["onRetry"]>>().mockResolvedValue(undefined),
+    onFailed: vi.fn<NonNullable<JobHandler["onFailed"]>>().mockResolvedValue(undefined),
+    onCancelled: vi.fn<NonNullable<JobHandler["onCancelled"]>>().mockResolvedValue(undefined),
+  };
+}
+
+function mergeJobInput(userId: string): InsertMergeJob {
+  return {
+    userId,
+    workspaceAUrl: "https://github.com/acme/app",
+    workspaceBUrl: "https://github.com/acme/app-fork",
+    aiProvider: "openai",
+    aiModel: null,
+    aiTemperature: null,
+    aiMaxTokens: null,
+    aiBaseUrl: null,
+  };
+}
+
+describe("JobQueue", () => {
+  let storage: MemStorage;
+  let queue: JobQueue;
+
+  const startQueue = async (handler: JobHandler, options: Partial<JobQueueOptions> = {}) => {
+    queue = new JobQueue(storage, {
+      concurrency: 1,
+      maxAttempts: 3,
+      retryBaseDelayMs: 1000,
+      pollIntervalMs: 100,
+      ...options,
+    });
+    queue.register("merge", handler);
+    await queue.start();
+  };
+  const stored = async (id: string) =>
+    (await storage.getQueuedJobsByStatus(["queued", "running", "completed", "failed", "cancelled"]))
+      .find(job => job.id === id);
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "setInterval", "clearInterval", "Date"] });
+    storage = new MemStorage();
+  });
+
+  afterEach(() => {
+    queue?.stop();
+    vi.useRealTimers();
+  });
+
+  it("retries a transient error with exponential backoff", async () => {
+    const unavailable = httpError("Service unavailable", 503);
+    const handler = stubHandler(async () => {});
+    handler.run.mockRejectedValueOnce(unavailable).mockRejectedValueOnce(unavailable);
+    await startQueue(handler);
+
+    const job = await queue.enqueue("merge", null, { step: 1 }, { token: "secret" });
+    await settle();
+
+    expect(handler.onRetry).toHaveBeenLastCalledWith(expect.objectContaining({ id: job.id, attempts: 1 }), unavailable, 1000);
+    expect(await stored(job.id)).toMatchObject({ status: "queued", lastError: "Service unavailable" });
+
+    await vi.advanceTimersByTimeAsync(900);
+    expect(handler.run).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(200);
+    await settle();
+    expect(handler.run).toHaveBeenCalledTimes(2);
+    expect(handler.onRetry).toHaveBeenLastCalledWith(expect.objectContaining({ attempts: 2 }), unavailable, 2000);
+
+    await vi.advanceTimersByTimeAsync(2100);
+    await settle();
+    expect(handler.run).toHaveBeenCalledTimes(3);
+    // Secrets are kept across retries
+    expect(handler.run).toHaveBeenLastCalledWith(expect.anything(), expect.any(AbortSignal), { token: "secret" });
+    expect(await stored(job.id)).toMatchObject({ status: "completed", attempts: 3, payload: null, lastError: null });
+    expect(handler.onFailed).not.toHaveBeenCalled();
+  });
+
+  it("fails a permanent error without retrying", async () => {
+    const badCredentials = httpError("Bad credentials", 401);
+    const handler = stubHandler(async () => { throw badCredentials; });
+    await startQueue(handler);
+
+    const job = await queue.enqueue("merge", null, { step: 1 });
+    await settle();
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(handler.run).toHaveBeenCalledTimes(1);
+    expect(handler.onRetry).not.toHaveBeenCalled();
+    expect(handler.onFailed).toHaveBeenCalledWith(expect.objectContaining({ id: job.id }), badCredentials);
+    expect(await stored(job.id)).toMatchObject({ status: "failed", attempts: 1, payload: null, lastError: "Bad credentials" });
+  });
+
+  it("fails a transient error once every attempt is used", async () => {
+    const handler = stubHandler(async () => { throw httpError("Too many requests", 429); });
+    await startQueue(handler, { maxAttempts: 2 });
+
+    const job = await queue.enqueue("merge", null, null);
+    await settle();
+    await vi.advanceTimersByTimeAsync(1100);
+    await settle();
+
+    expect(handler.run).toHaveBeenCalledTimes(2);
+    expect(handler.onRetry).toHaveBeenCalledTimes(1);
+    expect(handler.onFailed).toHaveBeenCalledTimes(1);
+    expect(await stored(job.id)).toMatchObject({ status: "failed", attempts: 2 });
+  });
+
+  it("aborts a running job when it is cancelled", async () => {
+    let runSignal: AbortSignal | undefined;
+    const aborted = new Error("Merge cancelled");
+    const handler = stubHandler((_job, signal) => new Promise<void>((_resolve, reject) => {
+      runSignal = signal;
+      signal.addEventListener("abort", () => reject(aborted));
+    }));
+    await startQueue(handler);
+
+    const job = await queue.enqueue("merge", "merge-1", null);
+    await settle();
+    expect(await stored(job.id)).toMatchObject({ status: "running" });
+
+    expect(await queue.cancel("merge-1")).toBe(true);
+    await settle();
+
+    expect(runSignal?.aborted).toBe(true);
+    expect(handler.onCancelled).toHaveBeenCalledWith(expect.objectContaining({ id: job.id }), aborted);
+    expect(handler.onFailed).not.toHaveBeenCalled();
+    expect(await stored(job.id)).toMatchObject({ status: "cancelled", payload: null });
+  });
+
+  it("cancels a job waiting for a retry without running it again", async () => {
+    const handler = stubHandler(async () => { throw httpError("Bad gateway", 502); });
+    await startQueue(handler);
+
+    const job = await queue.enqueue("merge", "merge-1", null);
+    await settle();
+    expect(await queue.cancel("merge-1")).toBe(true);
+    await vi.advanceTimersByTimeAsync(5000);
+    await settle();
+
+    expect(handler.run).toHaveBeenCalledTimes(1);
+    expect(handler.onCancelled).toHaveBeenCalledWith(expect.objectContaining({ id: job.id, status: "cancelled" }));
+    expect(await queue.cancel("merge-1")).toBe(false);
+  });
+
+  it("resumes interrupted jobs after a restart and fails merge jobs that lost theirs", async () => {
+    const userId = (await storage.createUser({ username: "alice", password: "hash.salt" })).id;
+    const interrupted = await storage.createMergeJob(mergeJobInput(userId));
+    await storage.updateMergeJob(interrupted.id, { status: "processing" });
+    const orphaned = await storage.createMergeJob(mergeJobInput(userId));
+    await storage.updateMergeJob(orphaned.id, { status: "queued" });
+    const finished = await storage.createMergeJob(mergeJobInput(userId));
+    await storage.updateMergeJob(finished.id, { status: "completed" });
+
+    // Left behind by the previous process, which stopped mid-run
+    const queuedJob = await storage.createQueuedJob({
+      kind: "merge",
+      mergeJobId: interrupted.id,
+      status: "running",
+      payload: { inlineSecrets: false },
+      attempts: 1,
+      maxAttempts: 3,
+      runAt: new Date(),
+    });
+
+    await failOrphanedMergeJobs(storage);
+    const handler = stubHandler(async () => {});
+    await startQueue(handler);
+    await settle();
+
+    expect((await storage.getMergeJob(orphaned.id))).toMatchObject({
+      status: "failed",
+      errorMessage: "Interrupted by a server restart",
+    });
+    expect((await storage.getMergeJob(interrupted.id))?.status).toBe("processing");
+    expect((await storage.getMergeJob(finished.id))?.status).toBe("completed");
+
+    // Secrets did not survive the restart
+    expect(handler.run).toHaveBeenCalledWith(
+      expect.objectContaining({ id: queuedJob.id, attempts: 2, lastError: "Interrupted by a server restart" }),
+      expect.any(AbortSignal),
+      undefined,
+    );
+    expect(await stored(queuedJob.id)).toMatchObject({ status: "completed" });
+  });
+});
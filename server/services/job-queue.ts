@@ -0,0 +1,209 @@
+import type { InsertQueuedJob, QueuedJob } from "@shared/schema";
+import type { IStorage } from "../storage";
+
+// HTTP statuses worth retrying: timeouts, rate limits and server-side errors
+const TRANSIENT_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+const TRANSIENT_CODES = new Set(["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "EPIPE", "UND_ERR_SOCKET"]);
+
+export interface JobQueueOptions {
+  concurrency: number;
+  maxAttempts: number;
+  // Delay before the first retry; doubles with every further attempt
+  retryBaseDelayMs: number;
+  pollIntervalMs: number;
+}
+
+export interface JobHandler {
+  // `signal` is aborted when the job is cancelled while running. `secrets` are
+  // the ones given to enqueue(), or undefined once the process has restarted
+  run(job: QueuedJob, signal: AbortSignal, secrets?: object): Promise<void>;
+  // Called before a transient failure is retried
+  onRetry?(job: QueuedJob, error: any, delayMs: number): Promise<void>;
+  // Called once the job has failed for good
+  onFailed?(job: QueuedJob, error: any): Promise<void>;
+  // Called once the job is cancelled; `error` is what a running job threw after the abort
+  onCancelled?(job: QueuedJob, error?: any): Promise<void>;
+}
+
+/**
+ * Whether an error (or anything in its `cause` chain) looks like a temporary
+ * GitHub or AI provider problem that may go away on its own.
+ */
+export function isTransientError(error: any): boolean {
+  for (let current = error; current; current = current.cause) {
+    if (TRANSIENT_STATUSES.has(current.status)) return true;
+    if (TRANSIENT_CODES.has(current.code)) return true;
+    if (current.name === "APIConnectionError" || current.name === "APIConnectionTimeoutError") return true;
+  }
+  return false;
+}
+
+/**
+ * Runs background work recorded in storage, so queued and interrupted jobs
+ * survive a restart when the storage is persistent. Meant for a single server
+ * process: jobs are claimed without locking. Secrets are never written to
+ * storage, they only live in memory until the job finishes.
+ */
+export class JobQueue {
+  private handlers = new Map<string, JobHandler>();
+  private running = new Map<string, AbortController>();
+  private secrets = new Map<string, object>();
+  private timer: NodeJS.Timeout | null = null;
+  private pumping = false;
+  private pumpAgain = false;
+
+  constructor(private storage: IStorage, private options: JobQueueOptions) {}
+
+  register(kind: string, handler: JobHandler) {
+    this.handlers.set(kind, handler);
+  }
+
+  async enqueue(
+    kind: string,
+    mergeJobId: string | null,
+    payload: InsertQueuedJob["payload"],
+    secrets?: object,
+  ): Promise<QueuedJob> {
+    const job = await this.storage.createQueuedJob({
+      kind,
+      mergeJobId,
+      status: "queued",
+      payload,
+      attempts: 0,
+      maxAttempts: this.options.maxAttempts,
+      runAt: new Date(),
+    });
+    if (secrets) this.secrets.set(job.id, secrets);
+    void this.pump();
+    return job;
+  }
+
+  /**
+   * Puts jobs that were running when the process stopped back in the queue
+   * and starts processing.
+   */
+  async start() {
+    const interrupted = await this.storage.getQueuedJobsByStatus(["running"]);
+    for (const job of interrupted) {
+      await this.storage.updateQueuedJob(job.id, {
+        status: "queued",
+        runAt: new Date(),
+        lastError: "Interrupted by a server restart",
+      });
+    }
+    if (interrupted.length > 0) {
+      console.log(`Re-queued ${interrupted.length} interrupted job(s)`);
+    }
+
+    this.timer = setInterval(() => void this.pump(), this.options.pollIntervalMs);
+    this.timer.unref();
+    await this.pump();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Cancels the queued or running jobs of a merge job. Running jobs are
+   * aborted and finish asynchronously. Returns false when nothing was found.
+   */
+  async cancel(mergeJobId: string): Promise<boolean> {
+    const jobs = (await this.storage.getQueuedJobsByStatus(["queued", "running"]))
+      .filter(job => job.mergeJobId === mergeJobId);
+
+    for (const job of jobs) {
+      const controller = this.running.get(job.id);
+      if (controller) {
+        controller.abort();
+        continue;
+      }
+
+      this.secrets.delete(job.id);
+      const cancelled = await this.storage.updateQueuedJob(job.id, { status: "cancelled", payload: null });
+      if (cancelled) {
+        await this.handlers.get(job.kind)?.onCancelled?.(cancelled);
+      }
+    }
+
+    return jobs.length > 0;
+  }
+
+  private async pump() {
+    // Only one pass at a time, otherwise two passes could claim the same job
+    if (this.pumping) {
+      this.pumpAgain = true;
+      return;
+    }
+    this.pumping = true;
+    this.pumpAgain = false;
+
+    try {
+      while (this.running.size < this.options.concurrency) {
+        const now = Date.now();
+        const queued = await this.storage.getQueuedJobsByStatus(["queued"]);
+        const next = queued.find(job => job.runAt.getTime() <= now && !this.running.has(job.id));
+        if (!next) break;
+
+        const claimed = await this.storage.updateQueuedJob(next.id, {
+          status: "running",
+          attempts: next.attempts + 1,
+        });
+        if (!claimed) continue;
+
+        const controller = new AbortController();
+        this.running.set(claimed.id, controller);
+        void this.execute(claimed, controller.signal)
+          .catch(error => console.error(`Job ${claimed.id} could not be finalized:`, error.message))
+          .finally(() => {
+            this.running.delete(claimed.id);
+            void this.pump();
+          });
+      }
+    } catch (error: any) {
+      console.error("Job queue error:", error.message);
+    } finally {
+      this.pumping = false;
+    }
+
+    if (this.pumpAgain) {
+      void this.pump();
+    }
+  }
+
+  private async execute(job: QueuedJob, signal: AbortSignal) {
+    const handler = this.handlers.get(job.kind);
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job kind '${job.kind}'`);
+      }
+      await handler.run(job, signal, this.secrets.get(job.id));
+      this.secrets.delete(job.id);
+      await this.storage.updateQueuedJob(job.id, { status: "completed", payload: null, lastError: null });
+    } catch (error: any) {
+      if (signal.aborted) {
+        this.secrets.delete(job.id);
+        await this.storage.updateQueuedJob(job.id, { status: "cancelled", payload: null, lastError: null });
+        await handler?.onCancelled?.(job, error);
+        return;
+      }
+
+      if (handler && job.attempts < job.maxAttempts && isTransientError(error)) {
+        const delayMs = this.options.retryBaseDelayMs * 2 ** (job.attempts - 1);
+        await this.storage.updateQueuedJob(job.id, {
+          status: "queued",
+          runAt: new Date(Date.now() + delayMs),
+          lastError: error.message,
+        });
+        await handler.onRetry?.(job, error, delayMs);
+        return;
+      }
+
+      this.secrets.delete(job.id);
+      await this.storage.updateQueuedJob(job.id, { status: "failed", payload: null, lastError: error.message });
+      await handler?.onFailed?.(job, error);
+    }
+  }
+}
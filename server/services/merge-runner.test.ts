@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { InsertMergeJob } from "@shared/schema";
+import { MemStorage } from "../storage";
+import { CredentialVault } from "./credential-vault";
+import { JobQueue } from "./job-queue";
+import { GitHubService } from "./github";
+import { createAIProvider } from "./ai-providers";
+import { createMergeJobHandler, startMergeJob } from "./merge-runner";
+
+// GitHub and the AI provider are replaced; the merger itself runs on empty workspaces
+vi.mock("./github", () => ({
+  GitHubService: vi.fn().mockImplementation(() => ({
+    parseGitHubUrl: (url: string) => ({ owner: "acme", repo: url.split("/").pop(), branch: "main" }),
+    resolveCommitSha: vi.fn().mockResolvedValue("commit"),
+    getFilesAtCommit: vi.fn().mockResolvedValue([]),
+    findMergeBase: vi.fn().mockResolvedValue(null),
+  })),
+}));
+vi.mock("./ai-providers", () => ({
+  createAIProvider: vi.fn().mockReturnValue({}),
+}));
+
+function mergeJobInput(userId: string, overrides: Partial<InsertMergeJob> = {}): InsertMergeJob {
+  return {
+    userId,
+    workspaceAUrl: "https://github.com/acme/app",
+    workspaceBUrl: "https://github.com/acme/app-fork",
+    aiProvider: "openai",
+    aiModel: null,
+    aiTemperature: null,
+    aiMaxTokens: null,
+    aiBaseUrl: null,
+    ...overrides,
+  };
+}
+
+describe("startMergeJob", () => {
+  let storage: MemStorage;
+  let vault: CredentialVault;
+  let queue: JobQueue;
+  let userId: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    storage = new MemStorage();
+    vault = new CredentialVault(storage, "test-master-key");
+    queue = new JobQueue(storage, { concurrency: 1, maxAttempts: 1, retryBaseDelayMs: 10, pollIntervalMs: 1000 });
+    queue.register("merge", createMergeJobHandler(storage, vault));
+    userId = (await storage.createUser({ username: "alice", password: "hash.salt" })).id;
+  });
+
+  it("runs a failed job again with the credentials saved on it", async () => {
+    const github = await vault.create(userId, "GitHub", "github", "ghp_saved");
+    const ai = await vault.create(userId, "OpenAI", "ai", "sk-saved");
+    const job = await storage.createMergeJob(mergeJobInput(userId, {
+      githubCredentialAId: github.id,
+      githubCredentialBId: github.id,
+      aiCredentialId: ai.id,
+    }));
+    const failed = await storage.updateMergeJob(job.id, {
+      status: "failed",
+      errorMessage: "Interrupted by a server restart",
+      mergedFiles: [{ path: "stale.ts" }],
+    });
+
+    await startMergeJob(storage, queue, failed!, {});
+    expect((await storage.getMergeJob(job.id))?.mergedFiles).toBeNull();
+
+    await vi.waitFor(async () => {
+      expect((await storage.getMergeJob(job.id))?.status).toBe("completed");
+    });
+
+    const rerun = await storage.getMergeJob(job.id);
+    expect(rerun?.errorMessage).toBeNull();
+    expect(rerun?.mergedFiles).toEqual([]);
+    expect(vi.mocked(GitHubService).mock.calls.map(call => call[0])).toEqual(["ghp_saved", "ghp_saved"]);
+    expect(vi.mocked(createAIProvider)).toHaveBeenCalledWith("openai", expect.objectContaining({ apiKey: "sk-saved" }));
+  });
+
+  it("prefers tokens sent with the request", async () => {
+    const job = await storage.createMergeJob(mergeJobInput(userId));
+    const cancelled = await storage.updateMergeJob(job.id, { status: "cancelled" });
+
+    await startMergeJob(storage, queue, cancelled!, { githubTokenA: "ghp_a", githubTokenB: "ghp_b", aiApiKey: "sk-inline" });
+
+    await vi.waitFor(async () => {
+      expect((await storage.getMergeJob(job.id))?.status).toBe("completed");
+    });
+    expect(vi.mocked(GitHubService).mock.calls.map(call => call[0])).toEqual(["ghp_a", "ghp_b"]);
+    expect(vi.mocked(createAIProvider)).toHaveBeenCalledWith("openai", expect.objectContaining({ apiKey: "sk-inline" }));
+  });
+});
@@ -0,0 +1,247 @@
+import type { MergeJob, QueuedJob } from "@shared/schema";
+import type { IStorage } from "../storage";
+import { GitHubService } from "./github";
+import { AIMergerService, MergeCancelledError } from "./ai-merger";
+import { createAIProvider } from "./ai-providers";
+import type { CredentialVault } from "./credential-vault";
+import { jobEvents } from "./job-events";
+import type { JobHandler, JobQueue } from "./job-queue";
+
+// Secrets sent with the merge request. The queue keeps them in memory only,
+// saved credentials referenced by the merge job are used for anything left out.
+export interface MergeJobSecrets {
+  githubTokenA?: string;
+  githubTokenB?: string;
+  aiApiKey?: string;
+}
+
+// What is stored with the queued job: which secrets were sent, never their values
+export interface MergeJobPayload {
+  inlineSecrets: (keyof MergeJobSecrets)[];
+}
+
+// The saved credential that can stand in for each secret
+const CREDENTIAL_FIELDS = {
+  githubTokenA: "githubCredentialAId",
+  githubTokenB: "githubCredentialBId",
+  aiApiKey: "aiCredentialId",
+} as const;
+
+// Failed and cancelled jobs can run again, e.g. with the credentials saved on them
+export const STARTABLE_STATUSES = ["pending", "failed", "cancelled"];
+
+/**
+ * Queues the merge of a job. Results of an earlier run are cleared first;
+ * `secrets` only need to hold what the job's saved credentials don't cover.
+ */
+export async function startMergeJob(storage: IStorage, queue: JobQueue, mergeJob: MergeJob, secrets: MergeJobSecrets) {
+  await storage.updateMergeJob(mergeJob.id, {
+    status: "queued",
+    errorMessage: null,
+    mergeBaseSha: null,
+    mergedFiles: null,
+    conflicts: null,
+    failures: null,
+    resolutionLog: null,
+    summary: null,
+    completedAt: null,
+  });
+  jobEvents.publish(mergeJob.id, { type: "status", status: "queued" });
+
+  const inlineSecrets = (Object.keys(secrets) as (keyof MergeJobSecrets)[]).filter(name => secrets[name]);
+  await queue.enqueue("merge", mergeJob.id, { inlineSecrets } satisfies MergeJobPayload, secrets);
+}
+
+/**
+ * Queue handler that fetches both workspaces and the merge base, runs the AI
+ * merger and stores the result on the merge job.
+ */
+export function createMergeJobHandler(storage: IStorage, vault: CredentialVault): JobHandler {
+  return {
+    async run(job: QueuedJob, signal: AbortSignal, inline?: object) {
+      const payload = job.payload as MergeJobPayload | null;
+      const secrets = (inline ?? {}) as MergeJobSecrets;
+
+      const mergeJob = await storage.getMergeJob(job.mergeJobId!);
+      if (!mergeJob) {
+        throw new Error("Merge job not found");
+      }
+
+      // After a restart the secrets sent with the request are gone; running
+      // without them would fetch or merge with the wrong permissions
+      const lost = (payload?.inlineSecrets ?? []).filter(name => !secrets[name] && !mergeJob[CREDENTIAL_FIELDS[name]]);
+      if (lost.length > 0) {
+        throw new Error("The server restarted and the tokens sent with this merge were not kept; start a new merge or use saved credentials");
+      }
+
+      const githubTokenA = await vault.resolve(secrets.githubTokenA, mergeJob.githubCredentialAId, "github", mergeJob.userId);
+      const githubTokenB = await vault.resolve(secrets.githubTokenB, mergeJob.githubCredentialBId, "github", mergeJob.userId);
+      const aiApiKey = await vault.resolve(secrets.aiApiKey, mergeJob.aiCredentialId, "ai", mergeJob.userId);
+
+      await storage.updateMergeJob(mergeJob.id, { status: "processing", errorMessage: null });
+      jobEvents.publish(mergeJob.id, { type: "status", status: "processing" });
+
+      // Fetch workspace files
+      const githubServiceA = new GitHubService(githubTokenA, undefined, signal);
+      const githubServiceB = new GitHubService(githubTokenB, undefined, signal);
+
+      const repoA = githubServiceA.parseGitHubUrl(mergeJob.workspaceAUrl);
+      const repoB = githubServiceB.parseGitHubUrl(mergeJob.workspaceBUrl);
+
+      jobEvents.publish(mergeJob.id, { type: "phase", phase: "fetching_a", message: `Fetching ${repoA.owner}/${repoA.repo}` });
+      const commitShaA = await githubServiceA.resolveCommitSha(
+        repoA.owner,
+        repoA.repo,
+        mergeJob.workspaceABranch || repoA.branch
+      );
+      const workspaceAFiles = await githubServiceA.getFilesAtCommit(repoA.owner, repoA.repo, commitShaA);
+
+      jobEvents.publish(mergeJob.id, { type: "phase", phase: "fetching_b", message: `Fetching ${repoB.owner}/${repoB.repo}` });
+      const commitShaB = await githubServiceB.resolveCommitSha(
+        repoB.owner,
+        repoB.repo,
+        mergeJob.workspaceBBranch || repoB.branch
+      );
+      const workspaceBFiles = await githubServiceB.getFilesAtCommit(repoB.owner, repoB.repo, commitShaB);
+
+      // Resolve the common ancestor so the merger can tell one-sided edits from real conflicts
+      jobEvents.publish(mergeJob.id, { type: "phase", phase: "fetching_base", message: "Looking up the merge base" });
+      const mergeBaseSha = await githubServiceA.findMergeBase(repoA, commitShaA, repoB, commitShaB);
+      const baseFiles = mergeBaseSha
+        ? await githubServiceA.getFilesAtCommit(repoA.owner, repoA.repo, mergeBaseSha)
+        : undefined;
+
+      await storage.updateMergeJob(mergeJob.id, { mergeBaseSha });
+
+      // Store workspace files
+      await storage.deleteWorkspaceFilesByJobId(mergeJob.id);
+      
+      for (const file of workspaceAFiles) {
+        await storage.createWorkspaceFile({
+          mergeJobId: mergeJob.id,
+          workspace: "a",
+          filePath: file.path,
+          content: file.content,
+          fileType: file.type,
+          isConflict: false,
+        });
+      }
+
+      for (const file of workspaceBFiles) {
+        await storage.createWorkspaceFile({
+          mergeJobId: mergeJob.id,
+          workspace: "b",
+          filePath: file.path,
+          content: file.content,
+          fileType: file.type,
+          isConflict: false,
+        });
+      }
+
+      for (const file of baseFiles || []) {
+        await storage.createWorkspaceFile({
+          mergeJobId: mergeJob.id,
+          workspace: "base",
+          filePath: file.path,
+          content: file.content,
+          fileType: file.type,
+          isConflict: false,
+        });
+      }
+      jobEvents.publish(mergeJob.id, { type: "files_loaded", workspace: "base", count: baseFiles?.length || 0 });
+
+      // Perform AI merge
+      const aiMerger = new AIMergerService(createAIProvider(mergeJob.aiProvider, {
+        apiKey: aiApiKey || "",
+        model: mergeJob.aiModel,
+        baseUrl: mergeJob.aiBaseUrl,
+      }), {
+        temperature: mergeJob.aiTemperature,
+        signal,
+        maxTokens: mergeJob.aiMaxTokens,
+        onProgress: (progress) => {
+          if (progress.type === "file_merged") {
+            jobEvents.publish(mergeJob.id, { type: "file", filePath: progress.filePath, status: progress.status, error: progress.error });
+            return;
+          }
+          if (progress.current === 1) {
+            jobEvents.publish(mergeJob.id, {
+              type: "phase",
+              phase: progress.type,
+              message: progress.type === "analyzing" ? "Analyzing conflicts" : "Merging files",
+            });
+          }
+          jobEvents.publish(mergeJob.id, { type: "progress", phase: progress.type, current: progress.current, total: progress.total, filePath: progress.filePath });
+        },
+      });
+      const mergeResult = await aiMerger.mergeWorkspaces(workspaceAFiles, workspaceBFiles, baseFiles);
+
+      // Update job with results
+      await storage.updateMergeJob(mergeJob.id, {
+        status: "completed",
+        mergedFiles: mergeResult.mergedFiles,
+        conflicts: mergeResult.conflicts,
+        failures: mergeResult.failures,
+        summary: mergeResult.summary,
+      });
+      jobEvents.publish(mergeJob.id, { type: "phase", phase: "completed", message: "Merge completed" });
+      jobEvents.publish(mergeJob.id, { type: "status", status: "completed" });
+    },
+
+    async onRetry(job: QueuedJob, error: any, delayMs: number) {
+      const mergeJobId = job.mergeJobId!;
+      const message = `Attempt ${job.attempts} of ${job.maxAttempts} failed (${error.message}), retrying in ${Math.round(delayMs / 1000)}s`;
+      await storage.updateMergeJob(mergeJobId, { status: "queued", errorMessage: message });
+      jobEvents.publish(mergeJobId, { type: "job_error", message });
+      jobEvents.publish(mergeJobId, { type: "status", status: "queued" });
+    },
+
+    async onFailed(job: QueuedJob, error: any) {
+      const mergeJobId = job.mergeJobId!;
+      await storage.updateMergeJob(mergeJobId, {
+        status: "failed",
+        errorMessage: error.message,
+      });
+      jobEvents.publish(mergeJobId, { type: "job_error", message: error.message });
+      jobEvents.publish(mergeJobId, { type: "phase", phase: "failed", message: "Merge failed" });
+      jobEvents.publish(mergeJobId, { type: "status", status: "failed" });
+    },
+
+    async onCancelled(job: QueuedJob, error?: any) {
+      const mergeJobId = job.mergeJobId!;
+      // Keep the files that were merged before the abort
+      const partial = error instanceof MergeCancelledError ? error.partial : undefined;
+      await storage.updateMergeJob(mergeJobId, {
+        status: "cancelled",
+        errorMessage: null,
+        ...(partial && {
+          mergedFiles: partial.mergedFiles,
+          conflicts: partial.conflicts,
+          failures: partial.failures,
+          summary: partial.summary,
+        }),
+      });
+      jobEvents.publish(mergeJobId, { type: "phase", phase: "cancelled", message: "Merge cancelled" });
+      jobEvents.publish(mergeJobId, { type: "status", status: "cancelled" });
+    },
+  };
+}
+
+/**
+ * Marks merge jobs that were queued or processing without a matching queue
+ * entry as failed. This happens when the storage survives a restart but the
+ * queue entry does not, e.g. after switching storage backends.
+ */
+export async function failOrphanedMergeJobs(storage: IStorage) {
+  const activeQueueJobs = await storage.getQueuedJobsByStatus(["queued", "running"]);
+  const activeMergeJobIds = new Set(activeQueueJobs.map(job => job.mergeJobId));
+
+  const mergeJobs = await storage.getMergeJobsByStatus(["queued", "processing"]);
+  for (const mergeJob of mergeJobs) {
+    if (activeMergeJobIds.has(mergeJob.id)) continue;
+    await storage.updateMergeJob(mergeJob.id, {
+      status: "failed",
+      errorMessage: "Interrupted by a server restart",
+    });
+  }
+}
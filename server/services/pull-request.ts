@@ -0,0 +1,64 @@
+import type { MergeJob } from "@shared/schema";
+import type { Conflict, MergedFile, MergeSummary } from "./ai-merger";
+
+// Statuses listed in the description because a reviewer should look at them first
+const REVIEW_STATUSES = new Set(["fallback-a", "failed", "unresolved"]);
+
+export function buildPullRequestTitle(job: MergeJob): string {
+  return `Merge ${describeWorkspace(job.workspaceBUrl, job.workspaceBBranch)} into ${describeWorkspace(job.workspaceAUrl, job.workspaceABranch)}`;
+}
+
+/**
+ * Markdown description for the pull request: the merge summary, files that
+ * still need a review and every conflict together with how it was resolved.
+ */
+export function buildPullRequestBody(job: MergeJob): string {
+  const summary = job.summary as MergeSummary | null;
+  const conflicts = (job.conflicts as Conflict[] | null) || [];
+  const mergedFiles = (job.mergedFiles as MergedFile[] | null) || [];
+  const sections: string[] = [];
+
+  sections.push([
+    "## Merge summary",
+    "",
+    `- Workspace A: ${describeWorkspace(job.workspaceAUrl, job.workspaceABranch)}`,
+    `- Workspace B: ${describeWorkspace(job.workspaceBUrl, job.workspaceBBranch)}`,
+    ...(job.mergeBaseSha ? [`- Merge base: ${job.mergeBaseSha}`] : []),
+    ...(summary
+      ? [
+          `- Files: ${summary.totalFiles} total, ${summary.mergedFiles} merged`,
+          `- Conflicts resolved: ${summary.conflictsResolved} of ${conflicts.length}`,
+          `- Lines added: ${summary.linesAdded}`,
+        ]
+      : []),
+  ].join("\n"));
+
+  const needsReview = mergedFiles.filter(f => REVIEW_STATUSES.has(f.status));
+  if (needsReview.length > 0) {
+    sections.push([
+      "## Files to review",
+      "",
+      ...needsReview.map(f => `- \`${f.path}\` (${f.status})${f.error ? `: ${f.error}` : ""}`),
+    ].join("\n"));
+  }
+
+  if (conflicts.length > 0) {
+    sections.push([
+      "## Conflicts",
+      "",
+      ...conflicts.map(conflict => {
+        const resolution = conflict.resolution
+          ? `resolved with \`${conflict.resolution.optionId}\` by ${conflict.resolution.resolvedBy}`
+          : "not resolved by a reviewer";
+        return `- \`${conflict.filePath}\` (${conflict.type}): ${conflict.description} — ${resolution}`;
+      }),
+    ].join("\n"));
+  }
+
+  return sections.join("\n\n");
+}
+
+function describeWorkspace(url: string, branch: string | null): string {
+  const repository = url.replace(/^https?:\/\/github\.com\//, "").replace(/\/tree\/.*$/, "").replace(/\.git$/, "");
+  return branch ? `${repository}@${branch}` : repository;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { MAX_DIFF_LINES } from "@shared/line-diff";
+import { computeChanges, formatConflictMarkers, mergeText, type MergeHunk } from "./text-merge";
+
+const merged = (hunks: MergeHunk[]) =>
+  hunks.flatMap(hunk => (hunk.kind === "clean" ? hunk.lines : [])).join("\n");
+
+describe("mergeText", () => {
+  const base = "one\ntwo\nthree\nfour\nfive";
+
+  it("merges edits to different lines without conflicts", () => {
+    const result = mergeText(base, "ONE\ntwo\nthree\nfour\nfive", "one\ntwo\nthree\nfour\nFIVE");
+
+    expect(result.hasConflicts).toBe(false);
+    expect(merged(result.hunks)).toBe("ONE\ntwo\nthree\nfour\nFIVE");
+    expect(result.hunks.map(hunk => hunk.kind === "clean" && hunk.source)).toEqual(["workspace_a", "base", "workspace_b"]);
+  });
+
+  it("takes the same change made on both sides once", () => {
+    const result = mergeText(base, "one\nTWO\nthree\nfour\nfive", "one\nTWO\nthree\nfour\nfive");
+
+    expect(result.hasConflicts).toBe(false);
+    expect(merged(result.hunks)).toBe("one\nTWO\nthree\nfour\nfive");
+  });
+
+  it("reports overlapping edits as a conflict with the base version", () => {
+    const result = mergeText(base, "one\ntwo-a\nthree\nfour\nfive", "one\ntwo-b\nthree\nfour\nfive");
+
+    expect(result.hasConflicts).toBe(true);
+    expect(result.hunks).toContainEqual({ kind: "conflict", base: ["two"], a: ["two-a"], b: ["two-b"] });
+  });
+
+  it("applies a deletion made on one side only", () => {
+    const result = mergeText(base, "one\nthree\nfour\nfive", "one\ntwo\nthree\nfour\nFIVE");
+
+    expect(result.hasConflicts).toBe(false);
+    expect(merged(result.hunks)).toBe("one\nthree\nfour\nFIVE");
+  });
+
+  it("conflicts when one side deletes lines the other side edits", () => {
+    const result = mergeText(base, "one\nthree\nfour\nfive", "one\nTWO\nthree\nfour\nfive");
+
+    expect(result.hunks).toContainEqual({ kind: "conflict", base: ["two"], a: [], b: ["TWO"] });
+  });
+
+  it("reports every difference as a conflict without a base", () => {
+    const result = mergeText(undefined, "same\na\nend", "same\nb\nend");
+
+    expect(result.hunks).toEqual([
+      { kind: "clean", lines: ["same"], source: "base" },
+      { kind: "conflict", a: ["a"], b: ["b"] },
+      { kind: "clean", lines: ["end"], source: "base" },
+    ]);
+  });
+
+  it("turns a changed region beyond MAX_DIFF_LINES into one conflict", () => {
+    const middle = Array.from({ length: MAX_DIFF_LINES / 2 + 1 }, (_, index) => `line ${index}`);
+    const changedA = [...middle];
+    changedA[0] = "a first";
+    changedA[middle.length - 1] = "a last";
+    const changedB = [...middle];
+    changedB[100] = "b middle";
+    const wrap = (lines: string[]) => ["head", ...lines, "tail"].join("\n");
+
+    // Small enough to diff, these edits would merge cleanly
+    const result = mergeText(wrap(middle), wrap(changedA), wrap(changedB));
+
+    expect(result.hunks).toHaveLength(3);
+    expect(result.hunks[0]).toEqual({ kind: "clean", lines: ["head"], source: "base" });
+    expect(result.hunks[1]).toEqual({ kind: "conflict", base: middle, a: changedA, b: changedB });
+    expect(result.hunks[2]).toEqual({ kind: "clean", lines: ["tail"], source: "base" });
+  });
+});
+
+describe("formatConflictMarkers", () => {
+  it("writes conflicts in diff3 style", () => {
+    const { hunks } = mergeText("x\nbase\ny", "x\nours\ny", "x\ntheirs\ny");
+
+    expect(formatConflictMarkers(hunks, { a: "A", b: "B", base: "base" })).toBe(
+      "x\n<<<<<<< A\nours\n||||||| base\nbase\n=======\ntheirs\n>>>>>>> B\ny"
+    );
+  });
+});
+
+describe("computeChanges", () => {
+  it("attributes merged lines to the workspace they came from", () => {
+    const changes = computeChanges("keep\nfrom b\nnew\n", "keep\nold\n", "keep\nfrom b\n");
+
+    expect(changes).toEqual([
+      { type: "modified", lineNumber: 2, content: "from b", source: "workspace_b" },
+      { type: "modified", lineNumber: 3, content: "new", source: "ai_generated" },
+    ]);
+  });
+});
@@ -0,0 +1,223 @@
+import type { Change } from "./ai-merger";
+import { splitLines, joinLines, matchLines } from "@shared/line-diff";
+
+export { splitLines, joinLines, matchLines } from "@shared/line-diff";
+
+export type HunkSource = "base" | "workspace_a" | "workspace_b";
+
+export interface CleanHunk {
+  kind: "clean";
+  lines: string[];
+  source: HunkSource;
+}
+
+export interface ConflictHunk {
+  kind: "conflict";
+  base?: string[];
+  a: string[];
+  b: string[];
+}
+
+export type MergeHunk = CleanHunk | ConflictHunk;
+
+export interface TextMergeResult {
+  hunks: MergeHunk[];
+  hasConflicts: boolean;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+function pushClean(hunks: MergeHunk[], lines: string[], source: HunkSource) {
+  if (lines.length === 0) return;
+  const last = hunks[hunks.length - 1];
+  if (last && last.kind === "clean" && last.source === source) {
+    last.lines.push(...lines);
+  } else {
+    hunks.push({ kind: "clean", lines: [...lines], source });
+  }
+}
+
+/**
+ * diff3-style line merge. Regions changed on only one side (relative to
+ * `base`) are taken from that side; regions changed on both sides in
+ * different ways become conflict hunks. Without a base every differing region
+ * is reported as a conflict, since the direction of a change is unknown.
+ */
+export function mergeText(base: string | undefined, a: string, b: string): TextMergeResult {
+  const linesA = splitLines(a);
+  const linesB = splitLines(b);
+  const hunks: MergeHunk[] = [];
+
+  if (base === undefined) {
+    const matchesAB = matchLines(linesA, linesB);
+    let posA = 0;
+    let posB = 0;
+
+    while (posA < linesA.length || posB < linesB.length) {
+      if (posA < linesA.length && matchesAB.get(posA) === posB) {
+        pushClean(hunks, [linesA[posA]], "base");
+        posA++;
+        posB++;
+        continue;
+      }
+
+      let nextA = posA;
+      while (nextA < linesA.length && matchesAB.get(nextA) === undefined) nextA++;
+      const nextB = nextA < linesA.length ? matchesAB.get(nextA)! : linesB.length;
+
+      hunks.push({
+        kind: "conflict",
+        a: linesA.slice(posA, nextA),
+        b: linesB.slice(posB, nextB),
+      });
+      posA = nextA;
+      posB = nextB;
+    }
+  } else {
+    const linesBase = splitLines(base);
+    const matchesA = matchLines(linesBase, linesA);
+    const matchesB = matchLines(linesBase, linesB);
+    let posO = 0;
+    let posA = 0;
+    let posB = 0;
+
+    while (posO < linesBase.length || posA < linesA.length || posB < linesB.length) {
+      // Lines unchanged on both sides
+      if (
+        posO < linesBase.length &&
+        matchesA.get(posO) === posA &&
+        matchesB.get(posO) === posB
+      ) {
+        pushClean(hunks, [linesBase[posO]], "base");
+        posO++;
+        posA++;
+        posB++;
+        continue;
+      }
+
+      // Find the next base line that survives in both versions
+      let nextO = posO;
+      while (
+        nextO < linesBase.length &&
+        (matchesA.get(nextO) === undefined || matchesB.get(nextO) === undefined)
+      ) {
+        nextO++;
+      }
+      const nextA = nextO < linesBase.length ? matchesA.get(nextO)! : linesA.length;
+      const nextB = nextO < linesBase.length ? matchesB.get(nextO)! : linesB.length;
+
+      const chunkBase = linesBase.slice(posO, nextO);
+      const chunkA = linesA.slice(posA, nextA);
+      const chunkB = linesB.slice(posB, nextB);
+
+      if (sameLines(chunkA, chunkBase)) {
+        pushClean(hunks, chunkB, "workspace_b");
+      } else if (sameLines(chunkB, chunkBase) || sameLines(chunkA, chunkB)) {
+        pushClean(hunks, chunkA, "workspace_a");
+      } else {
+        hunks.push({ kind: "conflict", base: chunkBase, a: chunkA, b: chunkB });
+      }
+
+      posO = nextO;
+      posA = nextA;
+      posB = nextB;
+    }
+  }
+
+  return {
+    hunks,
+    hasConflicts: hunks.some(hunk => hunk.kind === "conflict"),
+  };
+}
+
+/**
+ * Derives the per-line change list by diffing the merged content against
+ * both workspaces. Line numbers refer to the merged content; lines of
+ * workspace A that were dropped are reported where they used to be.
+ */
+export function computeChanges(merged: string, contentA?: string, contentB?: string): Change[] {
+  // A trailing newline is not a line of its own
+  const toLines = (content?: string) =>
+    content ? splitLines(content.replace(/\n$/, "")) : [];
+  const mergedLines = toLines(merged);
+  const linesA = toLines(contentA);
+  const linesB = toLines(contentB);
+  const matchesA = matchLines(mergedLines, linesA);
+  const matchesB = matchLines(mergedLines, linesB);
+  const sharedAB = new Set(matchLines(linesA, linesB).keys());
+
+  // Walk the merged content between consecutive lines that match workspace A
+  const anchors = Array.from(matchesA.entries()).sort((x, y) => x[0] - y[0]);
+  anchors.push([mergedLines.length, linesA.length]);
+
+  const changes: Change[] = [];
+  let previousMerged = -1;
+  let previousA = -1;
+
+  for (const [mergedIndex, indexA] of anchors) {
+    const droppedA = linesA.slice(previousA + 1, indexA);
+
+    for (let index = previousMerged + 1; index < mergedIndex; index++) {
+      changes.push({
+        type: droppedA.length > 0 ? "modified" : "added",
+        lineNumber: index + 1,
+        content: mergedLines[index],
+        source: matchesB.has(index) ? "workspace_b" : "ai_generated",
+      });
+    }
+
+    if (mergedIndex === previousMerged + 1) {
+      droppedA.forEach((line, offset) => {
+        changes.push({
+          type: "removed",
+          lineNumber: mergedIndex + 1,
+          content: line,
+          source: sharedAB.has(previousA + 1 + offset) ? "ai_generated" : "workspace_b",
+        });
+      });
+    }
+
+    // Lines kept from A that B does not have
+    if (mergedIndex < mergedLines.length && !matchesB.has(mergedIndex)) {
+      changes.push({
+        type: "added",
+        lineNumber: mergedIndex + 1,
+        content: mergedLines[mergedIndex],
+        source: "workspace_a",
+      });
+    }
+
+    previousMerged = mergedIndex;
+    previousA = indexA;
+  }
+
+  return changes;
+}
+
+export interface ConflictMarkerLabels {
+  a: string;
+  b: string;
+  base: string;
+}
+
+/**
+ * Writes merge hunks the way `git merge` with `merge.conflictStyle=diff3`
+ * does: clean hunks as they are, conflicting ones between `<<<<<<<` and
+ * `>>>>>>>` markers with the base version after `|||||||` when it is known.
+ */
+export function formatConflictMarkers(hunks: MergeHunk[], labels: ConflictMarkerLabels): string {
+  const lines = hunks.flatMap(hunk => {
+    if (hunk.kind === "clean") return hunk.lines;
+    return [
+      `<<<<<<< ${labels.a}`,
+      ...hunk.a,
+      ...(hunk.base ? [`||||||| ${labels.base}`, ...hunk.base] : []),
+      "=======",
+      ...hunk.b,
+      `>>>>>>> ${labels.b}`,
+    ];
+  });
+  return joinLines(lines);
+}
@@ -0,0 +1,92 @@
+import { randomUUID } from "crypto";
+import { sqliteTable, text, integer, real, uniqueIndex } from "drizzle-orm/sqlite-core";
+
+// SQLite mirror of the tables in shared/schema.ts. Column names and row types
+// match the PostgreSQL tables so SqliteStorage can return the shared types.
+// JSON is stored as text and timestamps as milliseconds since the epoch.
+
+const id = () => text("id").primaryKey().$defaultFn(() => randomUUID());
+const createdAt = () => integer("created_at", { mode: "timestamp_ms" }).$defaultFn(() => new Date());
+
+export const users = sqliteTable("users", {
+  id: id(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  createdAt: createdAt(),
+});
+
+export const mergeJobs = sqliteTable("merge_jobs", {
+  id: id(),
+  userId: text("user_id").references(() => users.id),
+  workspaceAUrl: text("workspace_a_url").notNull(),
+  workspaceBUrl: text("workspace_b_url").notNull(),
+  workspaceABranch: text("workspace_a_branch").default("main"),
+  workspaceBBranch: text("workspace_b_branch").default("main"),
+  status: text("status").notNull().default("pending"),
+  aiProvider: text("ai_provider").notNull(),
+  aiModel: text("ai_model"),
+  aiTemperature: real("ai_temperature"),
+  aiMaxTokens: integer("ai_max_tokens"),
+  aiBaseUrl: text("ai_base_url"),
+  mergeBaseSha: text("merge_base_sha"),
+  mergedFiles: text("merged_files", { mode: "json" }),
+  conflicts: text("conflicts", { mode: "json" }),
+  failures: text("failures", { mode: "json" }),
+  resolutionLog: text("resolution_log", { mode: "json" }),
+  summary: text("summary", { mode: "json" }),
+  publishedBranch: text("published_branch"),
+  pullRequestUrl: text("pull_request_url"),
+  githubCredentialAId: text("github_credential_a_id").references(() => credentials.id, { onDelete: "set null" }),
+  githubCredentialBId: text("github_credential_b_id").references(() => credentials.id, { onDelete: "set null" }),
+  aiCredentialId: text("ai_credential_id").references(() => credentials.id, { onDelete: "set null" }),
+  errorMessage: text("error_message"),
+  createdAt: createdAt(),
+  completedAt: integer("completed_at", { mode: "timestamp_ms" }),
+});
+
+export const workspaceFiles = sqliteTable("workspace_files", {
+  id: id(),
+  mergeJobId: text("merge_job_id").references(() => mergeJobs.id),
+  workspace: text("workspace").notNull(),
+  filePath: text("file_path").notNull(),
+  content: text("content"),
+  fileType: text("file_type"),
+  isConflict: integer("is_conflict", { mode: "boolean" }).default(false),
+});
+
+export const mergedFileRevisions = sqliteTable("merged_file_revisions", {
+  id: id(),
+  mergeJobId: text("merge_job_id").references(() => mergeJobs.id),
+  filePath: text("file_path").notNull(),
+  revision: integer("revision").notNull(),
+  content: text("content").notNull(),
+  editedBy: text("edited_by"),
+  createdAt: createdAt(),
+}, (table) => [
+  uniqueIndex("merged_file_revisions_revision_idx").on(table.mergeJobId, table.filePath, table.revision),
+]);
+
+export const queuedJobs = sqliteTable("queued_jobs", {
+  id: id(),
+  kind: text("kind").notNull(),
+  mergeJobId: text("merge_job_id").references(() => mergeJobs.id),
+  status: text("status").notNull().default("queued"),
+  payload: text("payload", { mode: "json" }),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull(),
+  runAt: integer("run_at", { mode: "timestamp_ms" }).notNull(),
+  lastError: text("last_error"),
+  createdAt: createdAt(),
+  updatedAt: integer("updated_at", { mode: "timestamp_ms" }).$defaultFn(() => new Date()),
+});
+
+export const credentials = sqliteTable("credentials", {
+  id: id(),
+  userId: text("user_id").references(() => users.id),
+  name: text("name").notNull(),
+  kind: text("kind").notNull(),
+  encryptedValue: text("encrypted_value").notNull(),
+  hint: text("hint").notNull(),
+  createdAt: createdAt(),
+  updatedAt: integer("updated_at", { mode: "timestamp_ms" }).$defaultFn(() => new Date()),
+});
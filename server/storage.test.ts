@@ -0,0 +1,264 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import path from "path";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import type { InsertMergeJob, ListMergeJobsQuery } from "@shared/schema";
+import { DatabaseStorage, MemStorage, SqliteStorage, type IStorage } from "./storage";
+import { openSqliteDatabase, migrateSqliteDatabase, type Database } from "./db";
+
+// Every backend has to behave the same, so the same tests run against each one
+const backends: { name: string; open: () => Promise<{ storage: IStorage; close: () => Promise<void> }> }[] = [
+  {
+    name: "MemStorage",
+    open: async () => ({ storage: new MemStorage(), close: async () => {} }),
+  },
+  {
+    name: "DatabaseStorage (PGlite)",
+    open: async () => {
+      const client = new PGlite();
+      const db = drizzle({ client, schema });
+      await migrate(db, { migrationsFolder: path.resolve(import.meta.dirname, "..", "migrations") });
+      return { storage: new DatabaseStorage(db as unknown as Database), close: () => client.close() };
+    },
+  },
+  {
+    name: "SqliteStorage",
+    open: async () => {
+      const db = openSqliteDatabase(":memory:");
+      migrateSqliteDatabase(db);
+      return { storage: new SqliteStorage(db), close: async () => {} };
+    },
+  },
+];
+
+function mergeJobInput(userId: string, overrides: Partial<InsertMergeJob> = {}): InsertMergeJob {
+  return {
+    userId,
+    workspaceAUrl: "https://github.com/acme/app",
+    workspaceBUrl: "https://github.com/acme/app-fork",
+    workspaceABranch: "main",
+    workspaceBBranch: "main",
+    aiProvider: "openai",
+    aiModel: null,
+    aiTemperature: null,
+    aiMaxTokens: null,
+    aiBaseUrl: null,
+    githubCredentialAId: null,
+    githubCredentialBId: null,
+    aiCredentialId: null,
+    ...overrides,
+  };
+}
+
+function listQuery(overrides: Partial<ListMergeJobsQuery> = {}): ListMergeJobsQuery {
+  return { page: 1, pageSize: 20, sortBy: "createdAt", sortOrder: "desc", ...overrides };
+}
+
+describe.each(backends)("$name", ({ open }) => {
+  let storage: IStorage;
+  let close: () => Promise<void>;
+  let userId: string;
+
+  beforeEach(async () => {
+    ({ storage, close } = await open());
+    userId = (await storage.createUser({ username: "alice", password: "hash.salt" })).id;
+  });
+
+  afterEach(async () => {
+    await close();
+  });
+
+  describe("users", () => {
+    it("finds users by id and by username", async () => {
+      const user = await storage.getUser(userId);
+      expect(user?.username).toBe("alice");
+      expect((await storage.getUserByUsername("alice"))?.id).toBe(userId);
+      expect(await storage.getUserByUsername("bob")).toBeUndefined();
+      expect(await storage.getUser("missing")).toBeUndefined();
+    });
+  });
+
+  describe("merge jobs", () => {
+    it("creates pending jobs without results", async () => {
+      const job = await storage.createMergeJob(mergeJobInput(userId));
+
+      expect(job).toMatchObject({
+        userId,
+        status: "pending",
+        mergedFiles: null,
+        conflicts: null,
+        summary: null,
+        errorMessage: null,
+        completedAt: null,
+      });
+      expect(job.createdAt).toBeInstanceOf(Date);
+      expect(await storage.getMergeJob(job.id)).toEqual(job);
+    });
+
+    it("sets completedAt when a job completes or fails", async () => {
+      const job = await storage.createMergeJob(mergeJobInput(userId));
+
+      const processing = await storage.updateMergeJob(job.id, { status: "processing" });
+      expect(processing?.completedAt).toBeNull();
+
+      const completed = await storage.updateMergeJob(job.id, { status: "completed", mergedFiles: [{ path: "a.ts" }] });
+      expect(completed?.completedAt).toBeInstanceOf(Date);
+      expect(completed?.mergedFiles).toEqual([{ path: "a.ts" }]);
+      expect(await storage.updateMergeJob("missing", { status: "failed" })).toBeUndefined();
+    });
+
+    it("finds jobs by status", async () => {
+      const queued = await storage.createMergeJob(mergeJobInput(userId));
+      await storage.updateMergeJob(queued.id, { status: "queued" });
+      await storage.createMergeJob(mergeJobInput(userId));
+
+      const jobs = await storage.getMergeJobsByStatus(["queued", "processing"]);
+      expect(jobs.map(job => job.id)).toEqual([queued.id]);
+    });
+  });
+
+  describe("listMergeJobs", () => {
+    it("only lists the jobs of the given user", async () => {
+      const bob = await storage.createUser({ username: "bob", password: "hash.salt" });
+      const own = await storage.createMergeJob(mergeJobInput(userId));
+      await storage.createMergeJob(mergeJobInput(bob.id));
+
+      const page = await storage.listMergeJobs(userId, listQuery());
+      expect(page.total).toBe(1);
+      expect(page.jobs.map(job => job.id)).toEqual([own.id]);
+    });
+
+    it("filters by status, provider and repository", async () => {
+      const completed = await storage.createMergeJob(mergeJobInput(userId, { aiProvider: "anthropic" }));
+      await storage.updateMergeJob(completed.id, { status: "completed" });
+      const other = await storage.createMergeJob(mergeJobInput(userId, { workspaceBUrl: "https://github.com/other/Repo_x" }));
+
+      const byStatus = await storage.listMergeJobs(userId, listQuery({ status: ["completed"] }));
+      expect(byStatus.jobs.map(job => job.id)).toEqual([completed.id]);
+
+      const byProvider = await storage.listMergeJobs(userId, listQuery({ aiProvider: "openai" }));
+      expect(byProvider.jobs.map(job => job.id)).toEqual([other.id]);
+
+      // Case-insensitive, and LIKE wildcards match literally
+      const byRepository = await storage.listMergeJobs(userId, listQuery({ repository: "other/repo_X" }));
+      expect(byRepository.jobs.map(job => job.id)).toEqual([other.id]);
+      const wildcard = await storage.listMergeJobs(userId, listQuery({ repository: "acme/app%" }));
+      expect(wildcard.total).toBe(0);
+    });
+
+    it("sorts with missing values last and pages through the results", async () => {
+      const ids: string[] = [];
+      for (let i = 0; i < 3; i++) {
+        ids.push((await storage.createMergeJob(mergeJobInput(userId))).id);
+      }
+      await storage.updateMergeJob(ids[1], { status: "completed" });
+
+      const byCompletion = await storage.listMergeJobs(userId, listQuery({ sortBy: "completedAt", sortOrder: "asc" }));
+      expect(byCompletion.jobs[0].id).toBe(ids[1]);
+
+      const first = await storage.listMergeJobs(userId, listQuery({ pageSize: 2, sortBy: "status", sortOrder: "asc" }));
+      const second = await storage.listMergeJobs(userId, listQuery({ page: 2, pageSize: 2, sortBy: "status", sortOrder: "asc" }));
+      expect(first.total).toBe(3);
+      expect(first.jobs).toHaveLength(2);
+      expect(second.jobs).toHaveLength(1);
+      expect(first.jobs[0].status).toBe("completed");
+      expect(new Set([...first.jobs, ...second.jobs].map(job => job.id))).toEqual(new Set(ids));
+    });
+  });
+
+  describe("workspace files", () => {
+    it("stores files per job and deletes them together", async () => {
+      const job = await storage.createMergeJob(mergeJobInput(userId));
+      const other = await storage.createMergeJob(mergeJobInput(userId));
+      await storage.createWorkspaceFile({ mergeJobId: job.id, workspace: "a", filePath: "a.ts", content: "a", fileType: "ts", isConflict: false });
+      await storage.createWorkspaceFile({ mergeJobId: job.id, workspace: "b", filePath: "a.ts", content: "b", fileType: "ts", isConflict: true });
+      await storage.createWorkspaceFile({ mergeJobId: other.id, workspace: "a", filePath: "b.ts", content: "c", fileType: "ts", isConflict: false });
+
+      const files = await storage.getWorkspaceFilesByJobId(job.id);
+      expect(files.map(file => file.content).sort()).toEqual(["a", "b"]);
+
+      await storage.deleteWorkspaceFilesByJobId(job.id);
+      expect(await storage.getWorkspaceFilesByJobId(job.id)).toEqual([]);
+      expect(await storage.getWorkspaceFilesByJobId(other.id)).toHaveLength(1);
+    });
+  });
+
+  describe("file revisions", () => {
+    it("stores the merger's output as revision 1 on the first edit", async () => {
+      const job = await storage.createMergeJob(mergeJobInput(userId));
+
+      const edit = await storage.createNextFileRevision({ mergeJobId: job.id, filePath: "a.ts", content: "edited", editedBy: "alice" }, "merged");
+      expect(edit.revision).toBe(2);
+
+      const revisions = await storage.getFileRevisions(job.id, "a.ts");
+      expect(revisions.map(({ revision, content, editedBy }) => ({ revision, content, editedBy }))).toEqual([
+        { revision: 1, content: "merged", editedBy: null },
+        { revision: 2, content: "edited", editedBy: "alice" },
+      ]);
+    });
+
+    it("gives concurrent edits distinct revision numbers", async () => {
+      const job = await storage.createMergeJob(mergeJobInput(userId));
+
+      const edits = await Promise.all([1, 2, 3, 4].map(i =>
+        storage.createNextFileRevision({ mergeJobId: job.id, filePath: "a.ts", content: `edit ${i}`, editedBy: "alice" }, "merged")
+      ));
+
+      expect(edits.map(edit => edit.revision).sort()).toEqual([2, 3, 4, 5]);
+      expect((await storage.getFileRevisions(job.id, "a.ts")).map(revision => revision.revision)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it("numbers every file separately", async () => {
+      const job = await storage.createMergeJob(mergeJobInput(userId));
+      await storage.createNextFileRevision({ mergeJobId: job.id, filePath: "a.ts", content: "a2", editedBy: "alice" }, "a1");
+      await storage.createNextFileRevision({ mergeJobId: job.id, filePath: "a.ts", content: "a3", editedBy: "alice" }, "a1");
+
+      const edit = await storage.createNextFileRevision({ mergeJobId: job.id, filePath: "b.ts", content: "b2", editedBy: "alice" }, "b1");
+      expect(edit.revision).toBe(2);
+      expect(await storage.getFileRevisions(job.id, "c.ts")).toEqual([]);
+    });
+  });
+
+  describe("queued jobs", () => {
+    it("finds queued jobs by status in runAt order", async () => {
+      const job = await storage.createMergeJob(mergeJobInput(userId));
+      const later = await storage.createQueuedJob({ kind: "merge", mergeJobId: job.id, status: "queued", payload: null, attempts: 0, maxAttempts: 3, runAt: new Date(2000) });
+      const sooner = await storage.createQueuedJob({ kind: "merge", mergeJobId: job.id, status: "queued", payload: { inlineSecrets: [] }, attempts: 0, maxAttempts: 3, runAt: new Date(1000) });
+
+      const running = await storage.updateQueuedJob(sooner.id, { status: "running", attempts: 1 });
+      expect(running).toMatchObject({ status: "running", attempts: 1, payload: { inlineSecrets: [] } });
+
+      expect((await storage.getQueuedJobsByStatus(["queued"])).map(queued => queued.id)).toEqual([later.id]);
+      expect((await storage.getQueuedJobsByStatus(["queued", "running"])).map(queued => queued.id)).toEqual([sooner.id, later.id]);
+      expect(await storage.updateQueuedJob("missing", { status: "failed" })).toBeUndefined();
+    });
+  });
+
+  describe("credentials", () => {
+    it("lists, updates and deletes the credentials of a user", async () => {
+      const bob = await storage.createUser({ username: "bob", password: "hash.salt" });
+      const credential = await storage.createCredential({ userId, name: "GitHub", kind: "github", encryptedValue: "v1:x", hint: "abcd" });
+      await storage.createCredential({ userId: bob.id, name: "Bob", kind: "ai", encryptedValue: "v1:y", hint: "efgh" });
+
+      expect((await storage.listCredentials(userId)).map(item => item.id)).toEqual([credential.id]);
+
+      const updated = await storage.updateCredential(credential.id, { name: "Work" });
+      expect(updated?.name).toBe("Work");
+      expect((await storage.getCredential(credential.id))?.name).toBe("Work");
+
+      expect(await storage.deleteCredential(credential.id)).toBe(true);
+      expect(await storage.deleteCredential(credential.id)).toBe(false);
+      expect(await storage.getCredential(credential.id)).toBeUndefined();
+    });
+
+    it("unlinks deleted credentials from merge jobs", async () => {
+      const credential = await storage.createCredential({ userId, name: "AI", kind: "ai", encryptedValue: "v1:x", hint: "abcd" });
+      const job = await storage.createMergeJob(mergeJobInput(userId, { aiCredentialId: credential.id }));
+
+      await storage.deleteCredential(credential.id);
+      expect((await storage.getMergeJob(job.id))?.aiCredentialId).toBeNull();
+    });
+  });
+});
@@ -1,22 +1,132 @@
-import { type MergeJob, type InsertMergeJob, type WorkspaceFile, type InsertWorkspaceFile } from "@shared/schema";
+import {
+  users,
+  credentials,
+  mergeJobs,
+  workspaceFiles,
+  mergedFileRevisions,
+  queuedJobs,
+  type MergeJob,
+  type InsertMergeJob,
+  type WorkspaceFile,
+  type InsertWorkspaceFile,
+  type MergedFileRevision,
+  type InsertMergedFileRevision,
+  type NewFileRevision,
+  type QueuedJob,
+  type InsertQueuedJob,
+  type ListMergeJobsQuery,
+  type Credential,
+  type InsertCredential,
+  type User,
+  type InsertUser,
+} from "@shared/schema";
 import { randomUUID } from "crypto";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { and, asc, count, eq, gte, ilike, inArray, like, lte, max, or, sql, type AnyColumn, type SQL } from "drizzle-orm";
+import {
+  openDatabase,
+  migrateDatabase,
+  openSqliteDatabase,
+  migrateSqliteDatabase,
+  type Database,
+  type NeonClient,
+  type SqliteDatabase,
+} from "./db";
+import * as sqliteTables from "./sqlite-schema";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Sessions kept in memory are lost on restart, so everyone has to log in again
+function createMemorySessionStore(): session.Store {
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+export interface MergeJobPage {
+  jobs: MergeJob[];
+  // Number of jobs matching the filters, across all pages
+  total: number;
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
   createMergeJob(job: InsertMergeJob): Promise<MergeJob>;
   getMergeJob(id: string): Promise<MergeJob | undefined>;
+  listMergeJobs(userId: string, query: ListMergeJobsQuery): Promise<MergeJobPage>;
+  getMergeJobsByStatus(statuses: string[]): Promise<MergeJob[]>;
   updateMergeJob(id: string, updates: Partial<MergeJob>): Promise<MergeJob | undefined>;
   createWorkspaceFile(file: InsertWorkspaceFile): Promise<WorkspaceFile>;
   getWorkspaceFilesByJobId(jobId: string): Promise<WorkspaceFile[]>;
   deleteWorkspaceFilesByJobId(jobId: string): Promise<void>;
+  // Numbers the edit after the file's latest revision; the first edit also
+  // stores `original` (the merger's output) as revision 1
+  createNextFileRevision(edit: NewFileRevision, original: string): Promise<MergedFileRevision>;
+  getFileRevisions(jobId: string, filePath: string): Promise<MergedFileRevision[]>;
+  createQueuedJob(job: InsertQueuedJob): Promise<QueuedJob>;
+  updateQueuedJob(id: string, updates: Partial<QueuedJob>): Promise<QueuedJob | undefined>;
+  getQueuedJobsByStatus(statuses: string[]): Promise<QueuedJob[]>;
+  createCredential(credential: InsertCredential): Promise<Credential>;
+  getCredential(id: string): Promise<Credential | undefined>;
+  listCredentials(userId: string): Promise<Credential[]>;
+  updateCredential(id: string, updates: Partial<Credential>): Promise<Credential | undefined>;
+  deleteCredential(id: string): Promise<boolean>;
+}
+
+// Jobs without a value for the sort column (e.g. not completed yet) always come last
+function orderByNullsLast(column: AnyColumn, order: "asc" | "desc"): SQL {
+  return sql`${column} ${sql.raw(order)} nulls last`;
+}
+
+// Escapes LIKE wildcards so a repository search matches literally
+function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+}
+
+const MAX_REVISION_ATTEMPTS = 5;
+
+// PostgreSQL unique_violation; neon may report it on the wrapped cause
+function isUniqueViolation(error: unknown): boolean {
+  const { code, cause } = error as { code?: string; cause?: { code?: string } };
+  return (code ?? cause?.code) === "23505";
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+  private users: Map<string, User>;
   private mergeJobs: Map<string, MergeJob>;
   private workspaceFiles: Map<string, WorkspaceFile>;
+  private fileRevisions: Map<string, MergedFileRevision>;
+  private queuedJobs: Map<string, QueuedJob>;
+  private credentials: Map<string, Credential>;
 
   constructor() {
+    this.sessionStore = createMemorySessionStore();
+    this.users = new Map();
     this.mergeJobs = new Map();
     this.workspaceFiles = new Map();
+    this.fileRevisions = new Map();
+    this.queuedJobs = new Map();
+    this.credentials = new Map();
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = randomUUID();
+    const user: User = { ...insertUser, id, createdAt: new Date() };
+    this.users.set(id, user);
+    return user;
   }
 
   async createMergeJob(insertJob: InsertMergeJob): Promise<MergeJob> {
@@ -24,11 +134,18 @@ export class MemStorage implements IStorage {
     const job: MergeJob = {
       ...insertJob,
       id,
+      status: "pending",
       createdAt: new Date(),
       completedAt: null,
+      mergeBaseSha: null,
       mergedFiles: null,
       conflicts: null,
+      failures: null,
+      resolutionLog: null,
       summary: null,
+      publishedBranch: null,
+      pullRequestUrl: null,
+      errorMessage: null,
     };
     this.mergeJobs.set(id, job);
     return job;
@@ -38,6 +155,41 @@ export class MemStorage implements IStorage {
     return this.mergeJobs.get(id);
   }
 
+  async getMergeJobsByStatus(statuses: string[]): Promise<MergeJob[]> {
+    return Array.from(this.mergeJobs.values()).filter(job => statuses.includes(job.status));
+  }
+
+  async listMergeJobs(userId: string, query: ListMergeJobsQuery): Promise<MergeJobPage> {
+    const repository = query.repository?.toLowerCase();
+    const matches = Array.from(this.mergeJobs.values()).filter(job =>
+      job.userId === userId &&
+      (!query.status?.length || query.status.includes(job.status)) &&
+      (!query.aiProvider || job.aiProvider === query.aiProvider) &&
+      (!repository ||
+        job.workspaceAUrl.toLowerCase().includes(repository) ||
+        job.workspaceBUrl.toLowerCase().includes(repository)) &&
+      (!query.createdFrom || (!!job.createdAt && job.createdAt >= query.createdFrom)) &&
+      (!query.createdTo || (!!job.createdAt && job.createdAt <= query.createdTo))
+    );
+
+    const direction = query.sortOrder === "asc" ? 1 : -1;
+    const sortKey = (job: MergeJob) => {
+      const value = job[query.sortBy];
+      return value instanceof Date ? value.getTime() : value;
+    };
+    matches.sort((a, b) => {
+      const valueA = sortKey(a);
+      const valueB = sortKey(b);
+      if (valueA === valueB) return a.id.localeCompare(b.id);
+      if (valueA === null) return 1;
+      if (valueB === null) return -1;
+      return (valueA < valueB ? -1 : 1) * direction;
+    });
+
+    const start = (query.page - 1) * query.pageSize;
+    return { jobs: matches.slice(start, start + query.pageSize), total: matches.length };
+  }
+
   async updateMergeJob(id: string, updates: Partial<MergeJob>): Promise<MergeJob | undefined> {
     const existing = this.mergeJobs.get(id);
     if (!existing) return undefined;
@@ -77,6 +229,487 @@ export class MemStorage implements IStorage {
     
     filesToDelete.forEach(id => this.workspaceFiles.delete(id));
   }
+
+  async createNextFileRevision(edit: NewFileRevision, original: string): Promise<MergedFileRevision> {
+    // No await before the inserts, so concurrent edits can't take the same number
+    const existing = Array.from(this.fileRevisions.values())
+      .filter(revision => revision.mergeJobId === edit.mergeJobId && revision.filePath === edit.filePath);
+    let next = Math.max(0, ...existing.map(revision => revision.revision)) + 1;
+    if (next === 1) {
+      this.addFileRevision({ ...edit, revision: 1, content: original, editedBy: null });
+      next = 2;
+    }
+    return this.addFileRevision({ ...edit, revision: next });
+  }
+
+  private addFileRevision(insertRevision: InsertMergedFileRevision): MergedFileRevision {
+    const id = randomUUID();
+    const revision: MergedFileRevision = {
+      ...insertRevision,
+      id,
+      mergeJobId: insertRevision.mergeJobId || null,
+      editedBy: insertRevision.editedBy || null,
+      createdAt: new Date(),
+    };
+    this.fileRevisions.set(id, revision);
+    return revision;
+  }
+
+  async getFileRevisions(jobId: string, filePath: string): Promise<MergedFileRevision[]> {
+    return Array.from(this.fileRevisions.values())
+      .filter(revision => revision.mergeJobId === jobId && revision.filePath === filePath)
+      .sort((a, b) => a.revision - b.revision);
+  }
+
+  async createQueuedJob(insertJob: InsertQueuedJob): Promise<QueuedJob> {
+    const id = randomUUID();
+    const job: QueuedJob = {
+      ...insertJob,
+      id,
+      mergeJobId: insertJob.mergeJobId || null,
+      status: insertJob.status || "queued",
+      payload: insertJob.payload ?? null,
+      attempts: insertJob.attempts || 0,
+      lastError: insertJob.lastError || null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.queuedJobs.set(id, job);
+    return job;
+  }
+
+  async updateQueuedJob(id: string, updates: Partial<QueuedJob>): Promise<QueuedJob | undefined> {
+    const existing = this.queuedJobs.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates, updatedAt: new Date() };
+    this.queuedJobs.set(id, updated);
+    return updated;
+  }
+
+  async getQueuedJobsByStatus(statuses: string[]): Promise<QueuedJob[]> {
+    return Array.from(this.queuedJobs.values())
+      .filter(job => statuses.includes(job.status))
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime());
+  }
+
+  async createCredential(insertCredential: InsertCredential): Promise<Credential> {
+    const id = randomUUID();
+    const credential: Credential = {
+      ...insertCredential,
+      id,
+      userId: insertCredential.userId ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.credentials.set(id, credential);
+    return credential;
+  }
+
+  async getCredential(id: string): Promise<Credential | undefined> {
+    return this.credentials.get(id);
+  }
+
+  async listCredentials(userId: string): Promise<Credential[]> {
+    return Array.from(this.credentials.values())
+      .filter(credential => credential.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async updateCredential(id: string, updates: Partial<Credential>): Promise<Credential | undefined> {
+    const existing = this.credentials.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates, updatedAt: new Date() };
+    this.credentials.set(id, updated);
+    return updated;
+  }
+
+  async deleteCredential(id: string): Promise<boolean> {
+    if (!this.credentials.delete(id)) return false;
+
+    // Same as ON DELETE SET NULL in the database schemas
+    for (const job of Array.from(this.mergeJobs.values())) {
+      if (job.githubCredentialAId === id) job.githubCredentialAId = null;
+      if (job.githubCredentialBId === id) job.githubCredentialBId = null;
+      if (job.aiCredentialId === id) job.aiCredentialId = null;
+    }
+    return true;
+  }
 }
 
-export const storage = new MemStorage();
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database, public sessionStore: session.Store = createMemorySessionStore()) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async createMergeJob(insertJob: InsertMergeJob): Promise<MergeJob> {
+    const [job] = await this.db.insert(mergeJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getMergeJob(id: string): Promise<MergeJob | undefined> {
+    const [job] = await this.db.select().from(mergeJobs).where(eq(mergeJobs.id, id));
+    return job;
+  }
+
+  async getMergeJobsByStatus(statuses: string[]): Promise<MergeJob[]> {
+    return this.db.select().from(mergeJobs).where(inArray(mergeJobs.status, statuses));
+  }
+
+  async listMergeJobs(userId: string, query: ListMergeJobsQuery): Promise<MergeJobPage> {
+    const pattern = query.repository && containsPattern(query.repository);
+    const where = and(
+      eq(mergeJobs.userId, userId),
+      query.status?.length ? inArray(mergeJobs.status, query.status) : undefined,
+      query.aiProvider ? eq(mergeJobs.aiProvider, query.aiProvider) : undefined,
+      pattern ? or(ilike(mergeJobs.workspaceAUrl, pattern), ilike(mergeJobs.workspaceBUrl, pattern)) : undefined,
+      query.createdFrom ? gte(mergeJobs.createdAt, query.createdFrom) : undefined,
+      query.createdTo ? lte(mergeJobs.createdAt, query.createdTo) : undefined,
+    );
+
+    const jobs = await this.db
+      .select()
+      .from(mergeJobs)
+      .where(where)
+      .orderBy(orderByNullsLast(mergeJobs[query.sortBy], query.sortOrder), asc(mergeJobs.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    const [{ total }] = await this.db.select({ total: count() }).from(mergeJobs).where(where);
+
+    return { jobs, total };
+  }
+
+  async updateMergeJob(id: string, updates: Partial<MergeJob>): Promise<MergeJob | undefined> {
+    const values = { ...updates };
+    if (updates.status === "completed" || updates.status === "failed") {
+      values.completedAt = new Date();
+    }
+
+    const [job] = await this.db.update(mergeJobs).set(values).where(eq(mergeJobs.id, id)).returning();
+    return job;
+  }
+
+  async createWorkspaceFile(insertFile: InsertWorkspaceFile): Promise<WorkspaceFile> {
+    const [file] = await this.db.insert(workspaceFiles).values(insertFile).returning();
+    return file;
+  }
+
+  async getWorkspaceFilesByJobId(jobId: string): Promise<WorkspaceFile[]> {
+    return this.db.select().from(workspaceFiles).where(eq(workspaceFiles.mergeJobId, jobId));
+  }
+
+  async deleteWorkspaceFilesByJobId(jobId: string): Promise<void> {
+    await this.db.delete(workspaceFiles).where(eq(workspaceFiles.mergeJobId, jobId));
+  }
+
+  async createNextFileRevision(edit: NewFileRevision, original: string): Promise<MergedFileRevision> {
+    // The unique index on (job, file, revision) rejects a number taken by a
+    // concurrent edit; the loser reads the new latest revision and tries again
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.db.transaction(async (tx) => {
+          const [latest] = await tx
+            .select({ revision: max(mergedFileRevisions.revision) })
+            .from(mergedFileRevisions)
+            .where(and(eq(mergedFileRevisions.mergeJobId, edit.mergeJobId!), eq(mergedFileRevisions.filePath, edit.filePath)));
+          let next = (latest?.revision ?? 0) + 1;
+          if (next === 1) {
+            await tx.insert(mergedFileRevisions).values({ ...edit, revision: 1, content: original, editedBy: null });
+            next = 2;
+          }
+          const [revision] = await tx.insert(mergedFileRevisions).values({ ...edit, revision: next }).returning();
+          return revision;
+        });
+      } catch (error) {
+        if (attempt >= MAX_REVISION_ATTEMPTS || !isUniqueViolation(error)) throw error;
+      }
+    }
+  }
+
+  async getFileRevisions(jobId: string, filePath: string): Promise<MergedFileRevision[]> {
+    return this.db
+      .select()
+      .from(mergedFileRevisions)
+      .where(and(eq(mergedFileRevisions.mergeJobId, jobId), eq(mergedFileRevisions.filePath, filePath)))
+      .orderBy(asc(mergedFileRevisions.revision));
+  }
+
+  async createQueuedJob(insertJob: InsertQueuedJob): Promise<QueuedJob> {
+    const [job] = await this.db.insert(queuedJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async updateQueuedJob(id: string, updates: Partial<QueuedJob>): Promise<QueuedJob | undefined> {
+    const [job] = await this.db
+      .update(queuedJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(queuedJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async getQueuedJobsByStatus(statuses: string[]): Promise<QueuedJob[]> {
+    return this.db
+      .select()
+      .from(queuedJobs)
+      .where(inArray(queuedJobs.status, statuses))
+      .orderBy(asc(queuedJobs.runAt));
+  }
+
+  async createCredential(insertCredential: InsertCredential): Promise<Credential> {
+    const [credential] = await this.db.insert(credentials).values(insertCredential).returning();
+    return credential;
+  }
+
+  async getCredential(id: string): Promise<Credential | undefined> {
+    const [credential] = await this.db.select().from(credentials).where(eq(credentials.id, id));
+    return credential;
+  }
+
+  async listCredentials(userId: string): Promise<Credential[]> {
+    return this.db.select().from(credentials).where(eq(credentials.userId, userId)).orderBy(asc(credentials.name));
+  }
+
+  async updateCredential(id: string, updates: Partial<Credential>): Promise<Credential | undefined> {
+    const [credential] = await this.db
+      .update(credentials)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(credentials.id, id))
+      .returning();
+    return credential;
+  }
+
+  async deleteCredential(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(credentials).where(eq(credentials.id, id)).returning({ id: credentials.id });
+    return deleted.length > 0;
+  }
+}
+
+/**
+ * Keeps everything in a single SQLite file, for installs without a database
+ * server. Uses the tables from server/sqlite-schema.ts.
+ */
+export class SqliteStorage implements IStorage {
+  // No SQLite session store is installed, so sessions stay in memory
+  constructor(private db: SqliteDatabase, public sessionStore: session.Store = createMemorySessionStore()) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(sqliteTables.users).where(eq(sqliteTables.users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(sqliteTables.users).where(eq(sqliteTables.users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(sqliteTables.users).values(insertUser).returning();
+    return user;
+  }
+
+  async createMergeJob(insertJob: InsertMergeJob): Promise<MergeJob> {
+    const [job] = await this.db.insert(sqliteTables.mergeJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getMergeJob(id: string): Promise<MergeJob | undefined> {
+    const [job] = await this.db.select().from(sqliteTables.mergeJobs).where(eq(sqliteTables.mergeJobs.id, id));
+    return job;
+  }
+
+  async getMergeJobsByStatus(statuses: string[]): Promise<MergeJob[]> {
+    return this.db.select().from(sqliteTables.mergeJobs).where(inArray(sqliteTables.mergeJobs.status, statuses));
+  }
+
+  async listMergeJobs(userId: string, query: ListMergeJobsQuery): Promise<MergeJobPage> {
+    const { mergeJobs } = sqliteTables;
+    const pattern = query.repository && containsPattern(query.repository);
+    // SQLite's LIKE is case-insensitive for ASCII but has no default escape character
+    const contains = (column: AnyColumn, value: string) => sql`${like(column, value)} escape '\\'`;
+    const where = and(
+      eq(mergeJobs.userId, userId),
+      query.status?.length ? inArray(mergeJobs.status, query.status) : undefined,
+      query.aiProvider ? eq(mergeJobs.aiProvider, query.aiProvider) : undefined,
+      pattern ? or(contains(mergeJobs.workspaceAUrl, pattern), contains(mergeJobs.workspaceBUrl, pattern)) : undefined,
+      query.createdFrom ? gte(mergeJobs.createdAt, query.createdFrom) : undefined,
+      query.createdTo ? lte(mergeJobs.createdAt, query.createdTo) : undefined,
+    );
+
+    const jobs = await this.db
+      .select()
+      .from(mergeJobs)
+      .where(where)
+      .orderBy(orderByNullsLast(mergeJobs[query.sortBy], query.sortOrder), asc(mergeJobs.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    const [{ total }] = await this.db.select({ total: count() }).from(mergeJobs).where(where);
+
+    return { jobs, total };
+  }
+
+  async updateMergeJob(id: string, updates: Partial<MergeJob>): Promise<MergeJob | undefined> {
+    const values = { ...updates };
+    if (updates.status === "completed" || updates.status === "failed") {
+      values.completedAt = new Date();
+    }
+
+    const [job] = await this.db
+      .update(sqliteTables.mergeJobs)
+      .set(values)
+      .where(eq(sqliteTables.mergeJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async createWorkspaceFile(insertFile: InsertWorkspaceFile): Promise<WorkspaceFile> {
+    const [file] = await this.db.insert(sqliteTables.workspaceFiles).values(insertFile).returning();
+    return file;
+  }
+
+  async getWorkspaceFilesByJobId(jobId: string): Promise<WorkspaceFile[]> {
+    return this.db.select().from(sqliteTables.workspaceFiles).where(eq(sqliteTables.workspaceFiles.mergeJobId, jobId));
+  }
+
+  async deleteWorkspaceFilesByJobId(jobId: string): Promise<void> {
+    await this.db.delete(sqliteTables.workspaceFiles).where(eq(sqliteTables.workspaceFiles.mergeJobId, jobId));
+  }
+
+  async createNextFileRevision(edit: NewFileRevision, original: string): Promise<MergedFileRevision> {
+    const { mergedFileRevisions } = sqliteTables;
+    // better-sqlite3 runs the transaction synchronously, nothing can interleave
+    return this.db.transaction((tx) => {
+      const latest = tx
+        .select({ revision: max(mergedFileRevisions.revision) })
+        .from(mergedFileRevisions)
+        .where(and(eq(mergedFileRevisions.mergeJobId, edit.mergeJobId!), eq(mergedFileRevisions.filePath, edit.filePath)))
+        .get();
+      let next = (latest?.revision ?? 0) + 1;
+      if (next === 1) {
+        tx.insert(mergedFileRevisions).values({ ...edit, revision: 1, content: original, editedBy: null }).run();
+        next = 2;
+      }
+      return tx.insert(mergedFileRevisions).values({ ...edit, revision: next }).returning().get();
+    });
+  }
+
+  async getFileRevisions(jobId: string, filePath: string): Promise<MergedFileRevision[]> {
+    const { mergedFileRevisions } = sqliteTables;
+    return this.db
+      .select()
+      .from(mergedFileRevisions)
+      .where(and(eq(mergedFileRevisions.mergeJobId, jobId), eq(mergedFileRevisions.filePath, filePath)))
+      .orderBy(asc(mergedFileRevisions.revision));
+  }
+
+  async createQueuedJob(insertJob: InsertQueuedJob): Promise<QueuedJob> {
+    const [job] = await this.db.insert(sqliteTables.queuedJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async updateQueuedJob(id: string, updates: Partial<QueuedJob>): Promise<QueuedJob | undefined> {
+    const [job] = await this.db
+      .update(sqliteTables.queuedJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(sqliteTables.queuedJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async getQueuedJobsByStatus(statuses: string[]): Promise<QueuedJob[]> {
+    return this.db
+      .select()
+      .from(sqliteTables.queuedJobs)
+      .where(inArray(sqliteTables.queuedJobs.status, statuses))
+      .orderBy(asc(sqliteTables.queuedJobs.runAt));
+  }
+
+  async createCredential(insertCredential: InsertCredential): Promise<Credential> {
+    const [credential] = await this.db.insert(sqliteTables.credentials).values(insertCredential).returning();
+    return credential;
+  }
+
+  async getCredential(id: string): Promise<Credential | undefined> {
+    const [credential] = await this.db.select().from(sqliteTables.credentials).where(eq(sqliteTables.credentials.id, id));
+    return credential;
+  }
+
+  async listCredentials(userId: string): Promise<Credential[]> {
+    return this.db
+      .select()
+      .from(sqliteTables.credentials)
+      .where(eq(sqliteTables.credentials.userId, userId))
+      .orderBy(asc(sqliteTables.credentials.name));
+  }
+
+  async updateCredential(id: string, updates: Partial<Credential>): Promise<Credential | undefined> {
+    const [credential] = await this.db
+      .update(sqliteTables.credentials)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(sqliteTables.credentials.id, id))
+      .returning();
+    return credential;
+  }
+
+  async deleteCredential(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(sqliteTables.credentials)
+      .where(eq(sqliteTables.credentials.id, id))
+      .returning({ id: sqliteTables.credentials.id });
+    return deleted.length > 0;
+  }
+}
+
+// Set for the database backends, so migrations can be applied on startup
+let database: NeonClient | undefined;
+let sqliteDatabase: SqliteDatabase | undefined;
+
+function createStorage(backend: string): IStorage {
+  switch (backend) {
+    case "memory":
+      return new MemStorage();
+    case "postgres":
+      if (!process.env.DATABASE_URL) {
+        throw new Error("DATABASE_URL must be set when STORAGE_BACKEND is 'postgres'");
+      }
+      database = openDatabase(process.env.DATABASE_URL);
+      return new DatabaseStorage(database, new PostgresSessionStore({
+        conString: process.env.DATABASE_URL,
+        createTableIfMissing: true,
+      }));
+    case "sqlite":
+      sqliteDatabase = openSqliteDatabase(process.env.SQLITE_PATH || "data/codemerge.db");
+      return new SqliteStorage(sqliteDatabase);
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND '${backend}', expected 'memory', 'postgres' or 'sqlite'`);
+  }
+}
+
+export const storage = createStorage(process.env.STORAGE_BACKEND || "memory");
+
+/**
+ * Brings the database schema up to date. Must run before the server starts
+ * handling requests; does nothing for in-memory storage.
+ */
+export async function prepareStorage() {
+  if (database) {
+    await migrateDatabase(database);
+  }
+  if (sqliteDatabase) {
+    migrateSqliteDatabase(sqliteDatabase);
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { alignThreeWay, joinLines, matchLines, MAX_DIFF_LINES, splitLines } from "./line-diff";
+
+// Length of the longest common subsequence, by dynamic programming
+function lcsLength(a: string[], b: string[]): number {
+  const previous = new Array(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = 0;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = a[i - 1] === b[j - 1] ? diagonal + 1 : Math.max(previous[j], previous[j - 1]);
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+// Small deterministic generator so failures can be reproduced
+function randomLines(seed: number, length: number, alphabet: number): string[] {
+  let state = seed;
+  return Array.from({ length }, () => {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    return String.fromCharCode(97 + (state % alphabet));
+  });
+}
+
+function expectValidMatching(a: string[], b: string[], matches: Map<number, number>) {
+  let lastA = -1;
+  let lastB = -1;
+  for (const [indexA, indexB] of Array.from(matches).sort((x, y) => x[0] - y[0])) {
+    expect(a[indexA]).toBe(b[indexB]);
+    expect(indexA).toBeGreaterThan(lastA);
+    expect(indexB).toBeGreaterThan(lastB);
+    lastA = indexA;
+    lastB = indexB;
+  }
+}
+
+describe("splitLines / joinLines", () => {
+  it("round-trips content, including a trailing newline", () => {
+    expect(splitLines("a\nb\n")).toEqual(["a", "b", ""]);
+    expect(joinLines(splitLines("a\nb\n"))).toBe("a\nb\n");
+  });
+});
+
+describe("matchLines", () => {
+  it("matches the lines both versions share", () => {
+    const matches = matchLines(["a", "b", "c", "d"], ["a", "x", "c", "d", "e"]);
+    expect(Array.from(matches)).toEqual([[0, 0], [2, 2], [3, 3]]);
+  });
+
+  it("handles empty inputs", () => {
+    expect(matchLines([], ["a"]).size).toBe(0);
+    expect(matchLines(["a"], []).size).toBe(0);
+  });
+
+  it("finds a longest common subsequence", () => {
+    for (let seed = 1; seed <= 200; seed++) {
+      const a = randomLines(seed, seed % 37, 4);
+      const b = randomLines(seed * 7919, (seed * 13) % 41, 4);
+      const matches = matchLines(a, b);
+
+      expectValidMatching(a, b, matches);
+      expect(matches.size).toBe(lcsLength(a, b));
+    }
+  });
+
+  it("does not search a changed region larger than MAX_DIFF_LINES", () => {
+    const half = MAX_DIFF_LINES / 2 + 1;
+    const middleA = Array.from({ length: half }, (_, index) => `line ${index}`);
+    const middleB = [...middleA];
+    middleB[0] = "changed first";
+    middleB[half - 1] = "changed last";
+    const a = ["head", ...middleA, "tail"];
+    const b = ["head", ...middleB, "tail"];
+
+    // Only the unchanged prefix and suffix are matched, the rest is one changed region
+    expect(Array.from(matchLines(a, b)).sort((x, y) => x[0] - y[0])).toEqual([[0, 0], [half + 1, half + 1]]);
+  });
+
+  it("still diffs a large file whose changed region is small", () => {
+    const a = Array.from({ length: MAX_DIFF_LINES * 2 }, (_, index) => `line ${index}`);
+    const b = [...a];
+    b[MAX_DIFF_LINES] = "changed";
+
+    expect(matchLines(a, b).size).toBe(a.length - 1);
+  });
+});
+
+describe("alignThreeWay", () => {
+  it("splits into equal and changed hunks that rebuild the merged content", () => {
+    const hunks = alignThreeWay("a\nb\nc", "a\nB\nc", "a\nb2\nc");
+
+    expect(hunks).toEqual([
+      { kind: "equal", a: ["a"], merged: ["a"], b: ["a"] },
+      { kind: "changed", a: ["b"], merged: ["B"], b: ["b2"] },
+      { kind: "equal", a: ["c"], merged: ["c"], b: ["c"] },
+    ]);
+    expect(joinLines(hunks.flatMap(hunk => hunk.merged))).toBe("a\nB\nc");
+  });
+});
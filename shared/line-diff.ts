@@ -0,0 +1,193 @@
+export function splitLines(content: string): string[] {
+  return content.split("\n");
+}
+
+export function joinLines(lines: string[]): string {
+  return lines.join("\n");
+}
+
+// Changed regions longer than this (both sides together) are not searched for
+// common lines; they come out as one changed region, e.g. a whole-file conflict
+export const MAX_DIFF_LINES = 10000;
+
+interface Snake {
+  // The snake runs diagonally from (x, y) to (u, v); it may be empty
+  x: number;
+  y: number;
+  u: number;
+  v: number;
+}
+
+/**
+ * Finds the middle snake of the shortest edit script between a[aLo, aHi) and
+ * b[bLo, bHi) by searching forwards and backwards at the same time. Only the
+ * current diagonals are kept, so memory is linear in the input size.
+ */
+function middleSnake(a: string[], aLo: number, aHi: number, b: string[], bLo: number, bHi: number): Snake {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const delta = n - m;
+  const odd = (delta & 1) !== 0;
+  const max = Math.ceil((n + m) / 2);
+  const offset = max + 1;
+  const forward = new Int32Array(2 * max + 3);
+  const backward = new Int32Array(2 * max + 3);
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+        ? forward[offset + k + 1]
+        : forward[offset + k - 1] + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+
+      // Forward diagonal k is backward diagonal delta - k
+      const reverseK = delta - k;
+      if (odd && reverseK >= -(d - 1) && reverseK <= d - 1 && x + backward[offset + reverseK] >= n) {
+        return { x: aLo + startX, y: bLo + startY, u: aLo + x, v: bLo + y };
+      }
+    }
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+        ? backward[offset + k + 1]
+        : backward[offset + k - 1] + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[offset + k] = x;
+
+      const forwardK = delta - k;
+      if (!odd && forwardK >= -d && forwardK <= d && x + forward[offset + forwardK] >= n) {
+        return { x: aHi - x, y: bHi - y, u: aHi - startX, v: bHi - startY };
+      }
+    }
+  }
+
+  // Unreachable: the searches always meet by d = max
+  throw new Error("Line diff did not converge");
+}
+
+/**
+ * Myers diff over two line arrays, in linear space (divide and conquer on the
+ * middle snake). Returns, for every line of `a` that is part of the longest
+ * common subsequence, the index of the matching line in `b`.
+ */
+export function matchLines(a: string[], b: string[]): Map<number, number> {
+  const matches = new Map<number, number>();
+
+  const diff = (aLo: number, aHi: number, bLo: number, bHi: number) => {
+    // Common prefix and suffix never need the full search
+    while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+      matches.set(aLo++, bLo++);
+    }
+    while (aHi > aLo && bHi > bLo && a[aHi - 1] === b[bHi - 1]) {
+      matches.set(--aHi, --bHi);
+    }
+    if (aLo === aHi || bLo === bHi) return;
+
+    const snake = middleSnake(a, aLo, aHi, b, bLo, bHi);
+    for (let offset = 0; snake.x + offset < snake.u; offset++) {
+      matches.set(snake.x + offset, snake.y + offset);
+    }
+    diff(aLo, snake.x, bLo, snake.y);
+    diff(snake.u, aHi, snake.v, bHi);
+  };
+
+  // Trim first so the size limit only applies to the region that changed
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    matches.set(start, start);
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    matches.set(--endA, --endB);
+  }
+
+  if ((endA - start) + (endB - start) <= MAX_DIFF_LINES) {
+    diff(start, endA, start, endB);
+  }
+
+  return matches;
+}
+
+export interface AlignedHunk {
+  // "equal" when all three versions have the same lines
+  kind: "equal" | "changed";
+  a: string[];
+  merged: string[];
+  b: string[];
+}
+
+/**
+ * Lines up workspace A and B against the merged content. Merged lines found
+ * on both sides act as anchors; whatever lies between two anchors forms a
+ * changed hunk. Concatenating the hunks' `merged` lines gives back `merged`.
+ */
+export function alignThreeWay(a: string, merged: string, b: string): AlignedHunk[] {
+  const linesA = splitLines(a);
+  const linesMerged = splitLines(merged);
+  const linesB = splitLines(b);
+  const matchesA = matchLines(linesMerged, linesA);
+  const matchesB = matchLines(linesMerged, linesB);
+  const hunks: AlignedHunk[] = [];
+  let posM = 0;
+  let posA = 0;
+  let posB = 0;
+
+  while (posM < linesMerged.length || posA < linesA.length || posB < linesB.length) {
+    if (
+      posM < linesMerged.length &&
+      matchesA.get(posM) === posA &&
+      matchesB.get(posM) === posB
+    ) {
+      const line = linesMerged[posM];
+      const last = hunks[hunks.length - 1];
+      if (last && last.kind === "equal") {
+        last.a.push(line);
+        last.merged.push(line);
+        last.b.push(line);
+      } else {
+        hunks.push({ kind: "equal", a: [line], merged: [line], b: [line] });
+      }
+      posM++;
+      posA++;
+      posB++;
+      continue;
+    }
+
+    let nextM = posM;
+    while (
+      nextM < linesMerged.length &&
+      (matchesA.get(nextM) === undefined || matchesB.get(nextM) === undefined)
+    ) {
+      nextM++;
+    }
+    const nextA = nextM < linesMerged.length ? matchesA.get(nextM)! : linesA.length;
+    const nextB = nextM < linesMerged.length ? matchesB.get(nextM)! : linesB.length;
+
+    hunks.push({
+      kind: "changed",
+      a: linesA.slice(posA, nextA),
+      merged: linesMerged.slice(posM, nextM),
+      b: linesB.slice(posB, nextB),
+    });
+    posM = nextM;
+    posA = nextA;
+    posB = nextB;
+  }
+
+  return hunks;
+}
@@ -1,19 +1,40 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, json, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, json, timestamp, boolean, real, integer, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(), // scrypt hash, see server/auth.ts
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const mergeJobs = pgTable("merge_jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id), // owner; only they can see the job
   workspaceAUrl: text("workspace_a_url").notNull(),
   workspaceBUrl: text("workspace_b_url").notNull(),
   workspaceABranch: text("workspace_a_branch").default("main"),
   workspaceBBranch: text("workspace_b_branch").default("main"),
-  status: text("status").notNull().default("pending"), // pending, processing, completed, failed
-  aiProvider: text("ai_provider").notNull(), // openai, anthropic
+  status: text("status").notNull().default("pending"), // pending, queued, processing, completed, failed, cancelled
+  aiProvider: text("ai_provider").notNull(), // any name registered in server/services/ai-providers.ts
+  aiModel: text("ai_model"),
+  aiTemperature: real("ai_temperature"),
+  aiMaxTokens: integer("ai_max_tokens"), // output token limit per AI request
+  aiBaseUrl: text("ai_base_url"), // only for openai-compatible endpoints
+  mergeBaseSha: text("merge_base_sha"),
   mergedFiles: json("merged_files"),
   conflicts: json("conflicts"),
+  failures: json("failures"), // AI requests that failed after all retries
+  resolutionLog: json("resolution_log"), // every accept/reject decision taken on a conflict
   summary: json("summary"),
+  publishedBranch: text("published_branch"),
+  pullRequestUrl: text("pull_request_url"),
+  // Saved credentials used instead of tokens sent with each request
+  githubCredentialAId: varchar("github_credential_a_id").references(() => credentials.id, { onDelete: "set null" }),
+  githubCredentialBId: varchar("github_credential_b_id").references(() => credentials.id, { onDelete: "set null" }),
+  aiCredentialId: varchar("ai_credential_id").references(() => credentials.id, { onDelete: "set null" }),
   errorMessage: text("error_message"),
   createdAt: timestamp("created_at").defaultNow(),
   completedAt: timestamp("completed_at"),
@@ -22,15 +43,77 @@ export const mergeJobs = pgTable("merge_jobs", {
 export const workspaceFiles = pgTable("workspace_files", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   mergeJobId: varchar("merge_job_id").references(() => mergeJobs.id),
-  workspace: text("workspace").notNull(), // 'a' or 'b'
+  workspace: text("workspace").notNull(), // 'a', 'b' or 'base'
   filePath: text("file_path").notNull(),
   content: text("content"),
   fileType: text("file_type"),
   isConflict: boolean("is_conflict").default(false),
 });
 
-export const insertMergeJobSchema = createInsertSchema(mergeJobs).omit({
+export const mergedFileRevisions = pgTable("merged_file_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  mergeJobId: varchar("merge_job_id").references(() => mergeJobs.id),
+  filePath: text("file_path").notNull(),
+  revision: integer("revision").notNull(), // 1 is the merger's output, every manual edit adds one
+  content: text("content").notNull(),
+  editedBy: text("edited_by"), // null for the merger's output
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  // Two concurrent edits can't both take the same revision number
+  uniqueIndex("merged_file_revisions_revision_idx").on(table.mergeJobId, table.filePath, table.revision),
+]);
+
+export const queuedJobs = pgTable("queued_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  kind: text("kind").notNull(), // handler name, e.g. "merge"
+  mergeJobId: varchar("merge_job_id").references(() => mergeJobs.id),
+  status: text("status").notNull().default("queued"), // queued, running, completed, failed, cancelled
+  payload: json("payload"), // handler input; cleared once the job is finished
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull(),
+  runAt: timestamp("run_at").notNull(), // not picked up before this time, used for backoff
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const credentials = pgTable("credentials", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
+  name: text("name").notNull(),
+  kind: text("kind").notNull(), // github, ai
+  encryptedValue: text("encrypted_value").notNull(), // see server/services/credential-vault.ts
+  hint: text("hint").notNull(), // last characters of the secret, to tell credentials apart
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.trim().min(3).max(50).regex(/^[A-Za-z0-9._-]+$/, "Username may only contain letters, digits, '.', '_' and '-'"),
+  password: (schema) => schema.min(8).max(200),
+}).pick({
+  username: true,
+  password: true,
+});
+
+export const insertMergeJobSchema = createInsertSchema(mergeJobs, {
+  aiModel: (schema) => schema.trim().min(1),
+  aiBaseUrl: (schema) => schema.url(),
+  aiTemperature: (schema) => schema.min(0).max(2),
+  aiMaxTokens: (schema) => schema.int().min(256).max(200000),
+}).omit({
   id: true,
+  // Set by the server while the merge runs, never by the client
+  status: true,
+  mergeBaseSha: true,
+  mergedFiles: true,
+  conflicts: true,
+  failures: true,
+  summary: true,
+  errorMessage: true,
+  resolutionLog: true,
+  publishedBranch: true,
+  pullRequestUrl: true,
   createdAt: true,
   completedAt: true,
 });
@@ -39,7 +122,91 @@ export const insertWorkspaceFileSchema = createInsertSchema(workspaceFiles).omit
   id: true,
 });
 
+export const insertMergedFileRevisionSchema = createInsertSchema(mergedFileRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertQueuedJobSchema = createInsertSchema(queuedJobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCredentialSchema = createInsertSchema(credentials).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const credentialKindSchema = z.enum(["github", "ai"]);
+
+export const createCredentialSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  kind: credentialKindSchema,
+  value: z.string().trim().min(1),
+});
+
+export const updateCredentialSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  value: z.string().trim().min(1).optional(),
+}).refine(update => update.name !== undefined || update.value !== undefined, "Nothing to update");
+
+export const updateMergedFileSchema = z.object({
+  content: z.string(),
+});
+
+export const publishMergeSchema = z.object({
+  targetUrl: z.string().url(),
+  targetBranch: z.string().trim().min(1).optional(), // defaults to the branch in the URL, then "main"
+  branchName: z.string().trim().regex(/^(?!\/)(?!.*\.\.)[A-Za-z0-9._\/-]+(?<![\/.])$/, "Invalid branch name").optional(),
+  title: z.string().trim().min(1).optional(),
+  githubToken: z.string().optional(),
+  githubCredentialId: z.string().optional(),
+});
+
+export const resolveConflictSchema = z.object({
+  optionId: z.string().min(1),
+  action: z.enum(["accept", "reject"]).default("accept"),
+});
+
+// Query string of GET /api/merge-jobs; `status` may be repeated or comma-separated
+export const listMergeJobsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.union([z.string(), z.array(z.string())]).optional().transform(value =>
+    value === undefined ? undefined : ([] as string[]).concat(value).flatMap(item => item.split(",")).map(item => item.trim()).filter(Boolean)
+  ),
+  aiProvider: z.string().trim().min(1).optional(),
+  repository: z.string().trim().min(1).optional(), // matched against both workspace URLs
+  createdFrom: z.coerce.date().optional(),
+  createdTo: z.coerce.date().optional(),
+  sortBy: z.enum(["createdAt", "completedAt", "status"]).default("createdAt"),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+});
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+// What the API returns for the signed-in user
+export type PublicUser = Omit<User, "password">;
 export type InsertMergeJob = z.infer<typeof insertMergeJobSchema>;
 export type MergeJob = typeof mergeJobs.$inferSelect;
+export type PublishMerge = z.infer<typeof publishMergeSchema>;
+export type ResolveConflict = z.infer<typeof resolveConflictSchema>;
+export type ListMergeJobsQuery = z.infer<typeof listMergeJobsQuerySchema>;
 export type InsertWorkspaceFile = z.infer<typeof insertWorkspaceFileSchema>;
 export type WorkspaceFile = typeof workspaceFiles.$inferSelect;
+export type InsertMergedFileRevision = z.infer<typeof insertMergedFileRevisionSchema>;
+export type MergedFileRevision = typeof mergedFileRevisions.$inferSelect;
+// A revision before storage has numbered it
+export type NewFileRevision = Omit<InsertMergedFileRevision, "revision">;
+export type InsertQueuedJob = z.infer<typeof insertQueuedJobSchema>;
+export type QueuedJob = typeof queuedJobs.$inferSelect;
+export type UpdateMergedFile = z.infer<typeof updateMergedFileSchema>;
+export type InsertCredential = z.infer<typeof insertCredentialSchema>;
+export type Credential = typeof credentials.$inferSelect;
+// What the API returns: the secret itself never leaves the server
+export type PublicCredential = Omit<Credential, "encryptedValue">;
+export type CredentialKind = z.infer<typeof credentialKindSchema>;
+export type CreateCredential = z.infer<typeof createCredentialSchema>;
+export type UpdateCredential = z.infer<typeof updateCredentialSchema>;